@@ -0,0 +1,50 @@
+/**
+ * Audit the dataset for internally inconsistent rows.
+ *
+ *   npm run audit:data                      # human-readable report
+ *   npm run audit:data -- --tolerance 0.1   # allow 10% LR drift
+ *   npm run audit:data -- --json            # machine-readable output
+ *
+ * Exits with status 1 when any error-level issue is found.
+ */
+import { auditDataset, DATA, DATASET_VERSION, DEFAULT_LR_TOLERANCE, DETAILS, type AuditIssue } from "../src/data";
+
+function parseArgs(argv: string[]) {
+  const opts = { json: false, tolerance: DEFAULT_LR_TOLERANCE };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") opts.json = true;
+    else if (arg === "--tolerance") {
+      const v = Number(argv[++i]);
+      if (!(v >= 0)) throw new Error(`--tolerance expects a non-negative number, got ${argv[i]}`);
+      opts.tolerance = v;
+    } else throw new Error(`Unknown argument: ${arg}`);
+  }
+  return opts;
+}
+
+function printReport(issues: AuditIssue[]) {
+  console.log(`Dataset v${DATASET_VERSION}: ${DATA.length} tests audited`);
+  if (issues.length === 0) {
+    console.log("No issues found.");
+    return;
+  }
+  const byTest = new Map<string, AuditIssue[]>();
+  for (const issue of issues) byTest.set(issue.testId, [...(byTest.get(issue.testId) ?? []), issue]);
+  for (const [id, list] of byTest) {
+    console.log(`\n${list[0].test} [${id}]`);
+    for (const i of list) console.log(`  ${i.severity.toUpperCase().padEnd(7)} ${i.rule.padEnd(20)} ${i.message}`);
+  }
+  const errors = issues.filter(i => i.severity === "error").length;
+  console.log(`\n${errors} error(s), ${issues.length - errors} warning(s)`);
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  const issues = auditDataset(DATA, DETAILS, { lrTolerance: opts.tolerance });
+  if (opts.json) console.log(JSON.stringify({ datasetVersion: DATASET_VERSION, issues }, null, 2));
+  else printReport(issues);
+  process.exitCode = issues.some(i => i.severity === "error") ? 1 : 0;
+}
+
+main();
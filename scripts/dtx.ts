@@ -0,0 +1,292 @@
+/**
+ * dtx — post-test probability lookups against the explorer's dataset.
+ *
+ *   npm run dtx -- list [--condition DVT]
+ *   npm run dtx -- search d-dimer
+ *   npm run dtx -- show ctpa
+ *   npm run dtx -- post --test CTPA --prev 0.25 --result negative
+ *   npm run dtx -- post --test psa --prev 30% --value "5.2 ng/mL"
+ *   npm run dtx -- post --test ultrasound --prev 20% --result negative --subgroup distal
+ *   npm run dtx -- post --test ferritin --prev 31% --category 15-34
+ *   npm run dtx -- sequence --prev 20% wells-score:+ d-dimer-poc:- ultrasound:-
+ *
+ * Add --json to any command for machine-readable output. LRs come from `accuracyFor` on the
+ * estimate `activeEstimate` picks (cutoff > subgroup > pooled studies > headline) and probabilities
+ * from `postTestProb`, the same code the web app uses.
+ */
+import { CONDITIONS, DATA, DATASET_VERSION, DETAILS, getTestById, type TestData } from "../src/data";
+import { accuracyFor, categoryLrs, findCategory, postTestEstimate, type Estimate } from "../src/lib/accuracy";
+import { activeEstimate, activeTest, choiceError, includedStudies, type EstimateChoice } from "../src/lib/active-test";
+import { formatCitation } from "../src/lib/citations";
+import { fmtStratum, measure, measurementUnit, parseMeasurement, type Measurement } from "../src/lib/measurement";
+import { chainPostTestProbs } from "../src/lib/diagnostic-math";
+
+type TestResult = "positive" | "negative";
+
+const USAGE = `Usage: dtx <command> [options] [--json]
+
+Commands:
+  list [--condition <name>]                  List tests, optionally for one condition
+  conditions                                 List conditions
+  search <text>                              Find tests by name or condition
+  show <test>                                Accuracy, reference and study notes for one test
+  post --test <test> --prev <p> [--result positive|negative | --value <number> [unit] | --category <id>]
+       [--cutoff <value>] [--subgroup <id>] [--exclude <study id,…>]
+                                             Post-test probability after one result, a measured
+                                             value of a quantitative test or a result category;
+                                             the options pick a cutoff, a subgroup or the pooled
+                                             studies
+  sequence --prev <p> <test>:<+|-> …         Chain results of several tests in order
+
+<test> is an id (ctpa) or a test name (CTPA). <p> is a probability (0.25) or a percentage (25%).`;
+
+class UsageError extends Error {}
+
+interface Args {
+  command: string | undefined;
+  positional: string[];
+  flags: Map<string, string>;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { command: undefined, positional: [], flags: new Map(), json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") args.json = true;
+    else if (arg === "--help" || arg === "-h") args.command = "help";
+    else if (arg.startsWith("--")) {
+      const value = argv[++i];
+      if (value === undefined) throw new UsageError(`${arg} expects a value`);
+      args.flags.set(arg.slice(2), value);
+    } else if (args.command === undefined) args.command = arg;
+    else args.positional.push(arg);
+  }
+  return args;
+}
+
+function parsePrevalence(raw: string | undefined): number {
+  if (raw === undefined) throw new UsageError("--prev is required");
+  const pct = raw.endsWith("%");
+  const v = Number(pct ? raw.slice(0, -1) : raw);
+  const p = pct ? v / 100 : v;
+  if (!(p >= 0 && p <= 1)) throw new UsageError(`--prev expects a probability in [0, 1] or a percentage, got ${raw}`);
+  return p;
+}
+
+function parseResult(raw: string | undefined): TestResult {
+  if (raw === undefined || raw === "positive" || raw === "+" || raw === "pos") return "positive";
+  if (raw === "negative" || raw === "-" || raw === "neg") return "negative";
+  throw new UsageError(`--result expects positive or negative, got ${raw}`);
+}
+
+// Exact id first, then a case-insensitive name; several tests sharing a name must be told apart by id
+function findTest(ref: string | undefined): TestData {
+  if (!ref) throw new UsageError("a test id or name is required");
+  const byId = getTestById(ref);
+  if (byId) return byId;
+  const matches = DATA.filter(t => t.test.toLowerCase() === ref.toLowerCase());
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) throw new UsageError(`"${ref}" matches several tests; use an id: ${matches.map(t => t.id).join(", ")}`);
+  throw new UsageError(`Unknown test "${ref}". Try \`dtx search ${ref}\`.`);
+}
+
+const pct = (p: number, digits = 1) => `${(p * 100).toFixed(digits)}%`;
+const ciText = (e: Estimate, fmt: (v: number) => string) => (e.ci ? ` (95% CI ${fmt(e.ci.lower)}–${fmt(e.ci.upper)})` : "");
+const lrText = (e: Estimate) => `${e.value.toFixed(2)}${ciText(e, v => v.toFixed(2))}${e.corrected ? " [continuity-corrected]" : ""}`;
+
+function printTable(rows: TestData[]) {
+  if (rows.length === 0) {
+    console.log("No tests found.");
+    return;
+  }
+  const idW = Math.max(...rows.map(t => t.id.length));
+  const testW = Math.max(...rows.map(t => t.test.length));
+  for (const t of rows) {
+    const acc = accuracyFor(t);
+    console.log(
+      `${t.id.padEnd(idW)}  ${t.test.padEnd(testW)}  ${t.condition.padEnd(22)}  Se ${pct(t.sensitivity, 0).padStart(4)}  Sp ${pct(t.specificity, 0).padStart(4)}  LR+ ${acc.lrPlus.value.toFixed(2).padStart(6)}  LR− ${acc.lrMinus.value.toFixed(2).padStart(5)}`,
+    );
+  }
+}
+
+// --cutoff, --subgroup and --exclude pick the estimate the same way the explorer's selectors do
+function chosenEstimate(t: TestData, args: Args) {
+  const rawCutoff = args.flags.get("cutoff");
+  const cutoff = rawCutoff === undefined ? null : Number(rawCutoff);
+  if (cutoff !== null && (rawCutoff!.trim() === "" || !Number.isFinite(cutoff))) throw new UsageError(`--cutoff expects a number, got ${rawCutoff}`);
+  const choice: EstimateChoice = {
+    cutoff,
+    subgroup: args.flags.get("subgroup") ?? null,
+    excludedStudies: args.flags.get("exclude")?.split(",").map(id => id.trim()).filter(Boolean) ?? [],
+  };
+  const error = choiceError(t, choice);
+  if (error) throw new UsageError(error);
+  return activeEstimate(t, choice);
+}
+
+const ESTIMATE_TEXT = { cutoff: "at the chosen cutoff", subgroup: "in the chosen subgroup", pooled: "pooled from its studies", headline: "headline estimate" };
+
+function summary(t: TestData) {
+  const acc = accuracyFor(t);
+  return { id: t.id, test: t.test, condition: t.condition, sensitivity: acc.sensitivity, specificity: acc.specificity, lrPlus: acc.lrPlus, lrMinus: acc.lrMinus, reference: t.reference, referenceUrl: t.referenceUrl ?? null, citation: t.citation ?? null };
+}
+
+function list(args: Args) {
+  const condition = args.flags.get("condition");
+  if (condition !== undefined && !CONDITIONS.some(c => c.toLowerCase() === condition.toLowerCase())) {
+    throw new UsageError(`Unknown condition "${condition}". Known: ${CONDITIONS.join(", ")}`);
+  }
+  const rows = condition === undefined ? DATA : DATA.filter(t => t.condition.toLowerCase() === condition.toLowerCase());
+  if (args.json) console.log(JSON.stringify({ datasetVersion: DATASET_VERSION, tests: rows.map(summary) }, null, 2));
+  else printTable(rows);
+}
+
+function search(args: Args) {
+  const q = args.positional.join(" ").trim().toLowerCase();
+  if (!q) throw new UsageError("search expects some text");
+  const rows = DATA.filter(t => t.id.includes(q) || t.test.toLowerCase().includes(q) || t.condition.toLowerCase().includes(q));
+  if (args.json) console.log(JSON.stringify({ datasetVersion: DATASET_VERSION, query: q, tests: rows.map(summary) }, null, 2));
+  else printTable(rows);
+}
+
+function show(args: Args) {
+  const t = findTest(args.positional[0] ?? args.flags.get("test"));
+  const acc = accuracyFor(t);
+  const notes = DETAILS[t.id] ?? null;
+  if (args.json) {
+    console.log(JSON.stringify({ ...summary(t), notes }, null, 2));
+    return;
+  }
+  console.log(`${t.test} — ${t.condition} [${t.id}]`);
+  console.log(`  Sensitivity  ${pct(acc.sensitivity.value)}${ciText(acc.sensitivity, v => pct(v))}`);
+  console.log(`  Specificity  ${pct(acc.specificity.value)}${ciText(acc.specificity, v => pct(v))}`);
+  console.log(`  LR+          ${lrText(acc.lrPlus)}`);
+  console.log(`  LR−          ${lrText(acc.lrMinus)}`);
+  console.log(`  Reference    ${formatCitation(t, "vancouver")}${t.referenceUrl ? ` <${t.referenceUrl}>` : ""}`);
+  for (const c of t.results ? categoryLrs(t.results) : []) console.log(`  Result       ${c.label}: LR ${c.lr.value.toFixed(2)}${c.lr.ci ? ` (${c.lr.ci.lower.toFixed(2)}–${c.lr.ci.upper.toFixed(2)})` : ""}`);
+  for (const s of t.intervalLrs?.strata ?? []) console.log(`  Interval LR  ${fmtStratum(s, t.intervalLrs!.unit)}: ${s.lr.toFixed(2)}${s.ci ? ` (${s.ci.lower.toFixed(2)}–${s.ci.upper.toFixed(2)})` : ""}`);
+  for (const g of t.subgroups ?? []) console.log(`  Subgroup     ${g.label}: Se ${pct(g.sensitivity)}, Sp ${pct(g.specificity)}, LR+ ${g.lrPlus.toFixed(2)}, LR− ${g.lrMinus.toFixed(2)} (${g.reference})`);
+  for (const s of includedStudies(t) ?? []) console.log(`  Study        ${s.label}: TP ${s.counts.tp}, FP ${s.counts.fp}, FN ${s.counts.fn}, TN ${s.counts.tn} (${s.reference})`);
+  if (includedStudies(t)) {
+    const pooled = activeTest(t);
+    console.log(`  Pooled       Se ${pct(pooled.sensitivity)}, Sp ${pct(pooled.specificity)}, LR+ ${pooled.lrPlus.toFixed(2)}, LR− ${pooled.lrMinus.toFixed(2)} (random effects; used by post and sequence)`);
+  }
+  if (notes?.overview) console.log(`\n${notes.overview}`);
+  for (const c of notes?.caveats ?? []) console.log(`  - ${c}`);
+}
+
+// --value "420 pg/mL" (or "420") uses the LR of the value's stratum instead of LR±
+function measuredValue(t: TestData, raw: string): Measurement {
+  const unit = measurementUnit(t);
+  if (!unit) throw new UsageError(`${t.test} has no cutoffs or interval LRs, so --value can't be used`);
+  const parsed = parseMeasurement(raw, unit, t.test);
+  if ("error" in parsed) throw new UsageError(`--value: ${parsed.error}`);
+  return measure(t, parsed.value, parsed.entered)!;
+}
+
+function post(args: Args) {
+  const t = findTest(args.flags.get("test") ?? args.positional[0]);
+  const prevalence = parsePrevalence(args.flags.get("prev"));
+  if ([args.flags.has("result"), args.flags.has("value"), args.flags.has("category")].filter(Boolean).length > 1) {
+    throw new UsageError("give only one of --result, --value and --category");
+  }
+  const rawCategory = args.flags.get("category");
+  if (rawCategory !== undefined) {
+    if (!t.results) throw new UsageError(`${t.test} has no result categories, so --category can't be used`);
+    const c = findCategory(t.results, rawCategory);
+    if (!c) throw new UsageError(`--category: ${t.test} has no category "${rawCategory}"; choose one of ${t.results.categories.map(c => c.id).join(", ")}`);
+    const postTest = postTestEstimate(prevalence, c.lr);
+    if (args.json) {
+      console.log(JSON.stringify({ test: summary(t), prevalence, category: { id: c.id, label: c.label }, lr: c.lr, postTest }, null, 2));
+      return;
+    }
+    console.log(`${t.test} (${t.condition}), result "${c.label}"`);
+    console.log(`  Pre-test   ${pct(prevalence)}`);
+    console.log(`  LR         ${lrText(c.lr)}`);
+    console.log(`  Post-test  ${pct(postTest.value)}${ciText(postTest, v => pct(v))}`);
+    return;
+  }
+  const raw = args.flags.get("value");
+  if (raw !== undefined) {
+    const m = measuredValue(t, raw);
+    const unit = measurementUnit(t)!;
+    const lr: Estimate = { value: m.lr.lr, ci: m.lr.ci, corrected: m.lr.corrected };
+    const postTest = postTestEstimate(prevalence, lr);
+    if (args.json) {
+      console.log(JSON.stringify({ test: summary(t), prevalence, value: m.value, unit, entered: m.entered, stratum: { from: m.lr.from, to: m.lr.to }, outsideStudiedRange: m.outside, lr, postTest }, null, 2));
+      return;
+    }
+    console.log(`${t.test} (${t.condition}), measured value ${m.value} ${unit}`);
+    console.log(`  Pre-test   ${pct(prevalence)}`);
+    console.log(`  LR         ${lrText(lr)} for ${fmtStratum(m.lr, unit)}`);
+    console.log(`  Post-test  ${pct(postTest.value)}${ciText(postTest, v => pct(v))}`);
+    if (m.outside && m.range) console.log(`  Warning    ${m.outside} the studied range (${m.range.lower}–${m.range.upper} ${unit}); the LR is extrapolated`);
+    if (m.outside && m.entered) console.log(`             Check the unit: ${m.entered.value} ${m.entered.unit} was converted to ${unit}`);
+    return;
+  }
+  const result = parseResult(args.flags.get("result"));
+  const { kind, test: active } = chosenEstimate(t, args);
+  const acc = accuracyFor(active);
+  const lr = result === "positive" ? acc.lrPlus : acc.lrMinus;
+  const postTest = postTestEstimate(prevalence, lr);
+  if (args.json) {
+    console.log(JSON.stringify({ test: summary(active), estimate: kind, prevalence, result, lr, postTest }, null, 2));
+    return;
+  }
+  console.log(`${t.test} (${t.condition}), ${result} result, ${ESTIMATE_TEXT[kind]}`);
+  console.log(`  Pre-test   ${pct(prevalence)}`);
+  console.log(`  ${result === "positive" ? "LR+" : "LR−"}        ${lrText(lr)}`);
+  console.log(`  Post-test  ${pct(postTest.value)}${ciText(postTest, v => pct(v))}`);
+}
+
+// Steps are written <test>:<result>, e.g. ctpa:- or "D-dimer (POC):negative"
+function sequence(args: Args) {
+  const prevalence = parsePrevalence(args.flags.get("prev"));
+  if (args.positional.length === 0) throw new UsageError("sequence expects at least one <test>:<+|-> step");
+  const steps = args.positional.map(step => {
+    const at = step.lastIndexOf(":");
+    if (at < 0) throw new UsageError(`Step "${step}" should look like <test>:<+|->`);
+    const test = findTest(step.slice(0, at));
+    const result = parseResult(step.slice(at + 1));
+    const acc = accuracyFor(activeTest(test));
+    return { test, result, lr: result === "positive" ? acc.lrPlus : acc.lrMinus };
+  });
+  const probs = chainPostTestProbs(prevalence, steps.map(s => s.lr.value));
+  if (args.json) {
+    console.log(JSON.stringify({
+      prevalence,
+      steps: steps.map((s, i) => ({ id: s.test.id, test: s.test.test, result: s.result, lr: s.lr, preTest: probs[i], postTest: probs[i + 1] })),
+      postTest: probs[probs.length - 1],
+    }, null, 2));
+    return;
+  }
+  console.log(`Pre-test  ${pct(prevalence)}`);
+  steps.forEach((s, i) => {
+    console.log(`  ${i + 1}. ${s.test.test} ${s.result === "positive" ? "+" : "−"}  LR ${s.lr.value.toFixed(2)}  →  ${pct(probs[i + 1])}`);
+  });
+  console.log(`Post-test ${pct(probs[probs.length - 1])} (assumes the tests are conditionally independent)`);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  switch (args.command) {
+    case "list": return list(args);
+    case "conditions": return void console.log(args.json ? JSON.stringify(CONDITIONS, null, 2) : CONDITIONS.join("\n"));
+    case "search": return search(args);
+    case "show": return show(args);
+    case "post": return post(args);
+    case "sequence": return sequence(args);
+    case undefined:
+    case "help": return void console.log(USAGE);
+    default: throw new UsageError(`Unknown command "${args.command}"`);
+  }
+}
+
+try {
+  main();
+} catch (e) {
+  if (!(e instanceof UsageError)) throw e;
+  console.error(`dtx: ${e.message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
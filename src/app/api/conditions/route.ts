@@ -0,0 +1,9 @@
+import { CONDITIONS, DATA, DATASET_VERSION } from "@/data";
+import { conditionSummary, jsonResponse, type ConditionsResponse } from "@/lib/api";
+
+export const dynamic = "force-static";
+
+// GET /api/conditions — each condition with its test ids and cited prevalence presets
+export function GET() {
+  return jsonResponse<ConditionsResponse>({ datasetVersion: DATASET_VERSION, conditions: CONDITIONS.map(c => conditionSummary(c, DATA)) });
+}
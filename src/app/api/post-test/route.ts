@@ -0,0 +1,59 @@
+import { DATASET_VERSION, getTestById } from "@/data";
+import { accuracyFor, findCategory, postTestEstimate } from "@/lib/accuracy";
+import { activeEstimate, choiceError, type EstimateChoice } from "@/lib/active-test";
+import { errorResponse, jsonResponse, type PostTestResponse } from "@/lib/api";
+
+// GET /api/post-test?test=<id>&prev=<0–1>&result=positive|negative[&cutoff=<value>][&subgroup=<id>][&exclude=<study id,…>]
+// GET /api/post-test?test=<id>&prev=<0–1>&category=<result category id>
+// Uses the same estimate (cutoff > subgroup > pooled studies > headline), category LRs, continuity-corrected
+// LRs and odds math as the explorer and the dtx CLI.
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const id = params.get("test");
+  if (!id) return errorResponse(400, "Missing `test` (a test id, e.g. ctpa)");
+  const test = getTestById(id);
+  if (!test) return errorResponse(404, `Unknown test "${id}"`);
+
+  const rawPrev = params.get("prev");
+  const prevalence = Number(rawPrev);
+  if (rawPrev === null || rawPrev.trim() === "" || !(prevalence >= 0 && prevalence <= 1)) {
+    return errorResponse(400, `\`prev\` must be a probability in [0, 1], got ${JSON.stringify(rawPrev)}`);
+  }
+
+  const rawCategory = params.get("category");
+  if (rawCategory !== null) {
+    if (params.has("result")) return errorResponse(400, "Give either `result` or `category`, not both");
+    if (!test.results) return errorResponse(400, `${test.test} has no result categories`);
+    const category = findCategory(test.results, rawCategory);
+    if (!category) return errorResponse(400, `\`category\` must be one of ${test.results.categories.map(c => c.id).join(", ")}, got "${rawCategory}"`);
+    return jsonResponse<PostTestResponse>({
+      datasetVersion: DATASET_VERSION,
+      test: test.id,
+      estimate: null,
+      prevalence,
+      result: null,
+      category: { id: category.id, label: category.label },
+      lr: category.lr,
+      postTest: postTestEstimate(prevalence, category.lr),
+    });
+  }
+
+  const result = params.get("result") ?? "positive";
+  if (result !== "positive" && result !== "negative") return errorResponse(400, `\`result\` must be positive or negative, got "${result}"`);
+
+  const rawCutoff = params.get("cutoff");
+  const cutoff = rawCutoff === null ? null : Number(rawCutoff);
+  if (cutoff !== null && (rawCutoff!.trim() === "" || !Number.isFinite(cutoff))) return errorResponse(400, `\`cutoff\` must be a number, got ${JSON.stringify(rawCutoff)}`);
+  const choice: EstimateChoice = {
+    cutoff,
+    subgroup: params.get("subgroup"),
+    excludedStudies: params.get("exclude")?.split(",").map(id => id.trim()).filter(Boolean) ?? [],
+  };
+  const invalid = choiceError(test, choice);
+  if (invalid) return errorResponse(400, invalid);
+
+  const { kind, test: active } = activeEstimate(test, choice);
+  const acc = accuracyFor(active);
+  const lr = result === "positive" ? acc.lrPlus : acc.lrMinus;
+  return jsonResponse<PostTestResponse>({ datasetVersion: DATASET_VERSION, test: test.id, estimate: kind, prevalence, result, category: null, lr, postTest: postTestEstimate(prevalence, lr) });
+}
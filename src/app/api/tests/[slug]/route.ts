@@ -0,0 +1,14 @@
+import { DATA, DATASET_VERSION, getTestById } from "@/data";
+import { errorResponse, jsonResponse, withNotes, type TestResponse } from "@/lib/api";
+
+export function generateStaticParams() {
+  return DATA.map(t => ({ slug: t.id }));
+}
+
+// GET /api/tests/<id> — one test with its study notes
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const test = getTestById(slug);
+  if (!test) return errorResponse(404, `Unknown test "${slug}"`);
+  return jsonResponse<TestResponse>({ datasetVersion: DATASET_VERSION, test: withNotes(test) });
+}
@@ -0,0 +1,13 @@
+import { CONDITIONS, DATA, DATASET_VERSION, filterTests } from "@/data";
+import { errorResponse, jsonResponse, withNotes, type TestsResponse } from "@/lib/api";
+
+// GET /api/tests?q=<text>&condition=<name> — same matching as the explorer's search box and condition filter
+export function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const query = params.get("q") ?? "";
+  const condition = params.get("condition") ?? "All";
+  if (condition !== "All" && !CONDITIONS.includes(condition)) return errorResponse(400, `Unknown condition "${condition}"`);
+
+  const tests = filterTests(DATA, query, condition).map(withNotes);
+  return jsonResponse<TestsResponse>({ datasetVersion: DATASET_VERSION, count: tests.length, tests });
+}
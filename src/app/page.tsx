@@ -1,5 +1,11 @@
+import { Suspense } from "react";
 import DiagnosticTestExplorer from "@/components/DiagnosticTestExplorer";
 
 export default function Home() {
-  return <DiagnosticTestExplorer />;
+  // The explorer reads its initial state from the URL (useSearchParams), which needs a Suspense boundary
+  return (
+    <Suspense>
+      <DiagnosticTestExplorer />
+    </Suspense>
+  );
 }
@@ -0,0 +1,101 @@
+import type { CategoryEstimate } from "@/lib/accuracy";
+import { postTestProb } from "@/lib/diagnostic-math";
+import type { TestData } from "@/data";
+import { fmtPct } from "@/components/explorer/format";
+
+// --- Multi-level results --------------------------------------------------------------------
+// Categories run from most (red) to least (green) suggestive of the condition
+const categoryColor = (i: number, count: number) => `hsl(${Math.round((142 * i) / Math.max(1, count - 1))} 70% 45%)`;
+
+// Largest-remainder rounding of shares to whole cells, so a grid always has exactly `total` cells
+function allocateCells(shares: readonly number[], total = 100) {
+  const raw = shares.map(s => s * total);
+  const cells = raw.map(Math.floor);
+  const order = raw.map((r, i) => ({ i, rest: r - Math.floor(r) })).sort((a, b) => b.rest - a.rest);
+  for (let k = 0; cells.reduce((a, b) => a + b, 0) < total; k++) cells[order[k % order.length].i]++;
+  return cells;
+}
+
+function CategoryGrid({ shares, activeIndex, ariaLabel }: { shares: readonly number[]; activeIndex: number; ariaLabel: string }) {
+  const cells = allocateCells(shares).flatMap((n, c) => Array.from({ length: n }, () => c));
+  return (
+    <div className="grid grid-cols-10 gap-1" role="img" aria-label={ariaLabel}>
+      {cells.map((c, i) => (
+        <div
+          key={i}
+          className="h-4 w-4 rounded-sm border"
+          style={{ backgroundColor: categoryColor(c, shares.length), borderColor: categoryColor(c, shares.length), opacity: c === activeIndex ? 1 : 0.3 }}
+          aria-hidden="true"
+        />
+      ))}
+    </div>
+  );
+}
+
+interface CategorySpreadProps {
+  test: TestData;
+  estimates: CategoryEstimate[];
+  activeId: string;
+  prevalence: number; // 0–1
+  onSelect: (categoryId: string) => void;
+}
+
+export function CategorySpread({ test, estimates, activeId, prevalence, onSelect }: CategorySpreadProps) {
+  const activeIndex = estimates.findIndex(e => e.id === activeId);
+  const spread = (p: number) => (p > 0 && p < 0.005 ? "<1%" : fmtPct(p));
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-8">
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">100 people with {test.condition}</div>
+          <CategoryGrid shares={estimates.map(e => e.pDiseased)} activeIndex={activeIndex} ariaLabel={`Results among people with ${test.condition}`} />
+        </div>
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">100 people without it</div>
+          <CategoryGrid shares={estimates.map(e => e.pNonDiseased)} activeIndex={activeIndex} ariaLabel={`Results among people without ${test.condition}`} />
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr className="border-b">
+            <th className="py-1 pr-2 text-left font-normal">Result</th>
+            <th className="py-1 pr-2 text-right font-normal">With</th>
+            <th className="py-1 pr-2 text-right font-normal">Without</th>
+            <th className="py-1 pr-2 text-right font-normal">LR (95% CI)</th>
+            <th className="py-1 text-right font-normal">Post-test</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimates.map((e, i) => (
+            <tr key={e.id} className={`border-b cursor-pointer hover:bg-muted ${i === activeIndex ? "font-semibold" : ""}`} onClick={() => onSelect(e.id)}>
+              <td className="py-1 pr-2">
+                <span className="inline-flex items-center gap-2">
+                  <span className="swatch" style={{ backgroundColor: categoryColor(i, estimates.length), borderColor: categoryColor(i, estimates.length) }} aria-hidden="true" />
+                  {e.label}
+                </span>
+              </td>
+              <td className="py-1 pr-2 text-right tabular-nums">{spread(e.pDiseased)}</td>
+              <td className="py-1 pr-2 text-right tabular-nums">{spread(e.pNonDiseased)}</td>
+              <td className="py-1 pr-2 text-right tabular-nums" title={e.lr.corrected ? "Continuity-corrected (empty cell)" : undefined}>
+                {e.lr.value.toFixed(2)}{e.lr.corrected ? "*" : ""} {e.lr.ci && <span className="text-muted-foreground">({e.lr.ci.lower.toFixed(2)}–{e.lr.ci.upper.toFixed(2)})</span>}
+              </td>
+              <td className="py-1 text-right tabular-nums">{fmtPct(postTestProb(prevalence, e.lr.value), 1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {test.results?.reference && (
+        <div className="text-xs text-muted-foreground">
+          Category data:{" "}
+          {test.results.referenceUrl ? (
+            <a href={test.results.referenceUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:no-underline">{test.results.reference}</a>
+          ) : (
+            test.results.reference
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { Info, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { accuracyFor } from "@/lib/accuracy";
+import { diagnosticOddsRatio, postTestProb, youdenJ } from "@/lib/diagnostic-math";
+import { DETAILS, type TestData } from "@/data";
+import { fmtPct } from "@/components/explorer/format";
+import { OutcomeGrid } from "@/components/explorer/ui-bits";
+
+// --- Compare mode -----------------------------------------------------------------------
+// Each row is one dimension; the best value(s) in a row are highlighted. Ties share the highlight.
+interface CompareRow {
+  label: string;
+  values: number[];
+  better: "higher" | "lower";
+  format: (v: number) => string;
+}
+
+function winners(values: number[], better: "higher" | "lower") {
+  const best = better === "higher" ? Math.max(...values) : Math.min(...values);
+  return values.map(v => v === best || Math.abs(v - best) < 1e-9);
+}
+
+export function ComparePanel({ prevalence, tests, onRemove, onClear }: { prevalence: number; tests: TestData[]; onRemove: (id: string) => void; onClear: () => void }) {
+  const acc = tests.map(accuracyFor);
+  const rows: CompareRow[] = [
+    { label: "Sensitivity", values: acc.map(a => a.sensitivity.value), better: "higher", format: v => fmtPct(v) },
+    { label: "Specificity", values: acc.map(a => a.specificity.value), better: "higher", format: v => fmtPct(v) },
+    { label: "LR+", values: acc.map(a => a.lrPlus.value), better: "higher", format: v => v.toFixed(2) },
+    { label: "LR−", values: acc.map(a => a.lrMinus.value), better: "lower", format: v => v.toFixed(2) },
+    { label: "Post-test if positive", values: acc.map(a => postTestProb(prevalence, a.lrPlus.value)), better: "higher", format: v => fmtPct(v, 1) },
+    { label: "Post-test if negative", values: acc.map(a => postTestProb(prevalence, a.lrMinus.value)), better: "lower", format: v => fmtPct(v, 1) },
+    { label: "Diagnostic odds ratio", values: tests.map(t => diagnosticOddsRatio(t.sensitivity, t.specificity)), better: "higher", format: v => (Number.isFinite(v) ? v.toFixed(1) : "—") },
+    { label: "Youden's J", values: tests.map(t => youdenJ(t.sensitivity, t.specificity)), better: "higher", format: v => v.toFixed(2) },
+  ];
+
+  // Identical caveats from several tests are listed once with all their test names
+  const caveats = new Map<string, string[]>();
+  for (const t of tests) {
+    for (const c of DETAILS[t.id]?.caveats ?? []) caveats.set(c, [...(caveats.get(c) ?? []), t.test]);
+  }
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <span>Compare tests</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs text-sm">
+              Highlighted values are best in their row: higher Se, Sp and LR+ (a positive rules in more strongly), lower LR− (a negative rules out more strongly).
+              Post-test probabilities use the current prevalence of {fmtPct(prevalence, prevalence < 0.1 ? 1 : 0)}. Studies differ in population and reference standard, so compare with care.
+            </TooltipContent>
+          </Tooltip>
+          <Button className="btn btn-outline ml-auto" onClick={onClear}>Clear</Button>
+        </div>
+
+        <div className="overflow-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th scope="col" className="px-2 py-2 text-left font-medium text-xs text-muted-foreground">At {fmtPct(prevalence, prevalence < 0.1 ? 1 : 0)} prevalence</th>
+                {tests.map(t => (
+                  <th key={t.id} scope="col" className="px-2 py-2 text-left font-medium">
+                    <div className="flex items-start gap-1">
+                      <span>
+                        {t.test}
+                        <div className="text-xs font-normal text-muted-foreground">{t.condition}</div>
+                      </span>
+                      <button className="ml-auto text-muted-foreground hover:text-foreground" aria-label={`Remove ${t.test} from comparison`} onClick={() => onRemove(t.id)}>
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const best = winners(row.values, row.better);
+                return (
+                  <tr key={row.label} className="border-b">
+                    <th scope="row" className="px-2 py-2 text-left font-normal text-muted-foreground">{row.label}</th>
+                    {row.values.map((v, i) => (
+                      <td
+                        key={tests[i].id}
+                        className={"px-2 py-2 tabular-nums" + (best[i] ? " font-semibold" : "")}
+                        style={best[i] ? { color: "hsl(var(--success))" } : undefined}
+                      >
+                        {row.format(v)}
+                        {best[i] && <span className="sr-only"> (best)</span>}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">Outcomes per 100 patients with (top) and without (bottom) the condition</div>
+          <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${tests.length}, minmax(0, 1fr))` }}>
+            {tests.map(t => {
+              const tp = Math.round(t.sensitivity * 100);
+              const tn = Math.round(t.specificity * 100);
+              return (
+                <div key={t.id} className="space-y-2">
+                  <div className="text-xs font-medium truncate">{t.test}</div>
+                  <OutcomeGrid correctCount={tp} incorrectCount={100 - tp} correctClass="tp" incorrectClass="fn" ariaLabel={`${t.test}: ${tp} true positives and ${100 - tp} false negatives per 100 diseased`} />
+                  <OutcomeGrid correctCount={tn} incorrectCount={100 - tn} correctClass="tn" incorrectClass="fp" ariaLabel={`${t.test}: ${tn} true negatives and ${100 - tn} false positives per 100 non-diseased`} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {caveats.size > 0 && (
+          <div>
+            <div className="text-xs text-muted-foreground">Caveats</div>
+            <ul className="list-disc pl-5 text-sm space-y-1">
+              {Array.from(caveats, ([c, names]) => (
+                <li key={c}>
+                  {c} <span className="text-xs text-muted-foreground">({names.join(", ")})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Link as LinkIcon, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// --- Copy link --------------------------------------------------------------------------
+// The URL already mirrors the explorer state (see lib/url-state), so sharing the view is copying it
+export function CopyLinkButton() {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(t);
+  }, [copied]);
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch {
+      window.prompt("Copy this link:", window.location.href);
+    }
+  }
+
+  return (
+    <Button variant="outline" className="btn btn-outline" aria-label="Copy link to this view" title="Copy link to this view" onClick={copy}>
+      {copied ? <Check className="h-4 w-4" /> : <LinkIcon className="h-4 w-4" />}
+      <span className="hidden sm:inline">{copied ? "Copied" : "Copy link"}</span>
+    </Button>
+  );
+}
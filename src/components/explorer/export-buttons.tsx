@@ -0,0 +1,68 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CITATION_STYLES, toBibtex, toRis, type CitationStyle } from "@/lib/citations";
+import { exportRows, toCsv, toJson, type ExportMeta } from "@/lib/export";
+import type { EstimateChoice } from "@/lib/active-test";
+import { DETAILS, type TestData } from "@/data";
+
+// --- Export -----------------------------------------------------------------------------
+function downloadFile(name: string, type: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+interface ExportButtonsProps {
+  tests: TestData[];
+  meta: Omit<ExportMeta, "exportedAt" | "url">;
+  choices: Record<string, EstimateChoice>; // the selected test's cutoff, subgroup and included studies
+  citationStyle: CitationStyle;
+  onCitationStyleChange: (style: CitationStyle) => void;
+}
+
+export function ExportButtons({ tests, meta, choices, citationStyle, onCitationStyleChange }: ExportButtonsProps) {
+  function run(format: "csv" | "json" | "ris" | "bib") {
+    const fullMeta: ExportMeta = { ...meta, exportedAt: new Date().toISOString(), url: window.location.href };
+    const stamp = fullMeta.exportedAt.slice(0, 10);
+    if (format === "ris") return downloadFile(`diagnostic-test-references-${stamp}.ris`, "application/x-research-info-systems", toRis(tests));
+    if (format === "bib") return downloadFile(`diagnostic-test-references-${stamp}.bib`, "application/x-bibtex", toBibtex(tests));
+    const rows = exportRows(tests, meta.prevalence, DETAILS, choices);
+    if (format === "csv") downloadFile(`diagnostic-tests-${stamp}.csv`, "text/csv;charset=utf-8", toCsv(rows, fullMeta));
+    else downloadFile(`diagnostic-tests-${stamp}.json`, "application/json", toJson(rows, fullMeta));
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-muted-foreground">
+        {tests.length} test{tests.length === 1 ? "" : "s"} shown
+      </span>
+      <Button className="btn btn-outline ml-auto" disabled={tests.length === 0} title="Spreadsheet-ready CSV (opens in Excel)" onClick={() => run("csv")}>
+        <Download className="h-4 w-4" /> CSV
+      </Button>
+      <Button className="btn btn-outline" disabled={tests.length === 0} onClick={() => run("json")}>
+        <Download className="h-4 w-4" /> JSON
+      </Button>
+      <span className="ml-2 text-muted-foreground">References</span>
+      <Select value={citationStyle} onValueChange={v => onCitationStyleChange(v as CitationStyle)}>
+        <SelectTrigger className="select-trigger w-auto min-w-[8rem]" aria-label="Citation style">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CITATION_STYLES.map(s => (
+            <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button className="btn btn-outline" disabled={tests.length === 0} title="References of the tests shown, for EndNote, Zotero or Mendeley" onClick={() => run("ris")}>
+        <Download className="h-4 w-4" /> RIS
+      </Button>
+      <Button className="btn btn-outline" disabled={tests.length === 0} title="References of the tests shown, for BibTeX/LaTeX or JabRef" onClick={() => run("bib")}>
+        <Download className="h-4 w-4" /> BibTeX
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type { TestResult } from "@/lib/url-state";
+import { oddsToProb, postTestProb, probToOdds } from "@/lib/diagnostic-math";
+import { type ChosenResult, fmtPct } from "@/components/explorer/format";
+
+// --- Fagan nomogram ----------------------------------------------------------------
+// Pre-test and post-test axes are on a logit scale and the LR axis on a log scale at half that
+// spacing, so a straight line through pre-test and LR lands on the post-test probability.
+const NOMO_W = 320;
+const NOMO_H = 380;
+const NOMO_TOP = 24;
+const NOMO_BOTTOM = NOMO_H - 20;
+const NOMO_MID = (NOMO_TOP + NOMO_BOTTOM) / 2;
+const NOMO_X = { pre: 56, lr: NOMO_W / 2, post: NOMO_W - 56 };
+const NOMO_P_MIN = 0.001;
+const NOMO_K = (NOMO_MID - NOMO_TOP) / Math.log(probToOdds(1 - NOMO_P_MIN)); // px per logit unit
+
+const PROB_TICKS = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.8, 0.9, 0.95, 0.98, 0.99, 0.995, 0.999];
+const LR_TICKS = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+
+const clampNomoP = (p: number) => Math.min(1 - NOMO_P_MIN, Math.max(NOMO_P_MIN, p));
+const preY = (p: number) => NOMO_MID + NOMO_K * Math.log(probToOdds(clampNomoP(p))); // high pre-test at the bottom
+const postY = (p: number) => NOMO_MID - NOMO_K * Math.log(probToOdds(clampNomoP(p))); // high post-test at the top
+const lrY = (lr: number) => NOMO_MID - (NOMO_K / 2) * Math.log(lr);
+const pFromPreY = (y: number) => oddsToProb(Math.exp((y - NOMO_MID) / NOMO_K));
+
+const fmtTick = (p: number) => {
+  const v = p * 100;
+  return v < 1 || v > 99 ? String(+v.toFixed(1)) : v.toFixed(0);
+};
+
+interface FaganNomogramProps {
+  prevalence: number; // 0–1
+  lrPlus: number;
+  lrMinus: number;
+  testResult: TestResult;
+  result?: ChosenResult | null; // drawn alone, in place of the LR± lines
+  minPrevalence?: number; // % bounds of the prevalence slider
+  maxPrevalence?: number;
+  onPrevalenceChange: (pct: number) => void;
+}
+
+export function FaganNomogram({ prevalence, lrPlus, lrMinus, testResult, result, minPrevalence = 1, maxPrevalence = 90, onPrevalenceChange }: FaganNomogramProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  function updateFromPointer(e: React.PointerEvent) {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const rect = svg.getBoundingClientRect();
+    const y = ((e.clientY - rect.top) / rect.height) * NOMO_H;
+    const p = pFromPreY(y);
+    const pct = p < 0.1 ? Math.round(p * 1000) / 10 : Math.round(p * 100); // tenths of a percent only at the low end
+    onPrevalenceChange(Math.min(maxPrevalence, Math.max(minPrevalence, pct)));
+  }
+
+  const lines = result
+    ? [{ kind: "result" as const, label: result.label, lr: result.lr, color: "hsl(var(--primary))" }]
+    : [
+        { kind: "positive" as const, label: "LR+", lr: lrPlus, color: "hsl(var(--primary))" },
+        { kind: "negative" as const, label: "LR−", lr: lrMinus, color: "hsl(var(--danger))" },
+      ];
+
+  const axis = (x: number, label: string, ticks: number[], y: (v: number) => number, fmt: (v: number) => string, side: "left" | "right") => (
+    <g>
+      <line x1={x} x2={x} y1={NOMO_TOP} y2={NOMO_BOTTOM} stroke="hsl(var(--foreground))" strokeWidth={1} />
+      <text x={x} y={NOMO_TOP - 10} textAnchor="middle" fontSize={10} fontWeight={600} fill="hsl(var(--foreground))">{label}</text>
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={x - 4} x2={x + 4} y1={y(t)} y2={y(t)} stroke="hsl(var(--foreground))" strokeWidth={1} />
+          <text x={side === "left" ? x - 7 : x + 7} y={y(t)} textAnchor={side === "left" ? "end" : "start"} dominantBaseline="middle" fontSize={9} fill="hsl(var(--muted-foreground))">
+            {fmt(t)}
+          </text>
+        </g>
+      ))}
+    </g>
+  );
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${NOMO_W} ${NOMO_H}`}
+      className="w-full h-auto max-w-sm mx-auto select-none touch-none"
+      role="img"
+      aria-label={
+        result
+          ? `Fagan nomogram: pre-test ${fmtPct(prevalence)}, post-test ${fmtPct(postTestProb(prevalence, result.lr))} for ${result.label}`
+          : `Fagan nomogram: pre-test ${fmtPct(prevalence)}, post-test ${fmtPct(postTestProb(prevalence, lrPlus))} if positive, ${fmtPct(postTestProb(prevalence, lrMinus))} if negative`
+      }
+      onPointerMove={e => dragging && updateFromPointer(e)}
+      onPointerUp={() => setDragging(false)}
+      onPointerLeave={() => setDragging(false)}
+    >
+      {axis(NOMO_X.pre, "Pre-test %", PROB_TICKS, preY, fmtTick, "left")}
+      {axis(NOMO_X.lr, "LR", LR_TICKS, lrY, v => String(v), "right")}
+      {axis(NOMO_X.post, "Post-test %", PROB_TICKS, postY, fmtTick, "right")}
+
+      {lines.map(l => {
+        const post = postTestProb(prevalence, l.lr);
+        const active = l.kind === "result" || l.kind === testResult;
+        return (
+          <g key={l.kind} opacity={active ? 1 : 0.55}>
+            <line x1={NOMO_X.pre} y1={preY(prevalence)} x2={NOMO_X.post} y2={postY(post)} stroke={l.color} strokeWidth={active ? 2.5 : 1.5} strokeDasharray={active ? undefined : "4 3"} />
+            <circle cx={NOMO_X.lr} cy={lrY(l.lr)} r={3} fill={l.color} />
+            <circle cx={NOMO_X.post} cy={postY(post)} r={3.5} fill={l.color} />
+            <text x={NOMO_X.post - 8} y={postY(post)} textAnchor="end" dominantBaseline="middle" fontSize={10} fontWeight={600} fill={l.color}>
+              {l.label} {fmtPct(post, post < 0.01 ? 1 : 0)}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* Draggable pre-test handle: the whole left axis is the hit area */}
+      <rect
+        x={NOMO_X.pre - 14}
+        y={NOMO_TOP}
+        width={28}
+        height={NOMO_BOTTOM - NOMO_TOP}
+        fill="transparent"
+        style={{ cursor: "ns-resize" }}
+        onPointerDown={e => {
+          (e.target as Element).setPointerCapture?.(e.pointerId);
+          setDragging(true);
+          updateFromPointer(e);
+        }}
+      />
+      <circle cx={NOMO_X.pre} cy={preY(prevalence)} r={6} fill="hsl(var(--background))" stroke="hsl(var(--foreground))" strokeWidth={2} pointerEvents="none" />
+    </svg>
+  );
+}
@@ -0,0 +1,11 @@
+import type { Interval } from "@/data";
+
+// A result category or measured value: one LR in place of the positive/negative pair
+export interface ChosenResult {
+  label: string;
+  lr: number;
+}
+
+export const fmtPct = (p: number, digits = 0) => (p * 100).toFixed(digits) + "%";
+export const fmtPctCI = (ci: Interval | null, digits = 0) => (ci ? `95% CI ${(ci.lower * 100).toFixed(digits)}–${fmtPct(ci.upper, digits)}` : undefined);
+export const fmtRatioCI = (ci: Interval | null) => (ci ? `95% CI ${ci.lower.toFixed(2)}–${ci.upper.toFixed(2)}` : undefined);
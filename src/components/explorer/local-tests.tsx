@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Info, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { importRecords, importText, type ImportRecord, type ImportResult, type TestData } from "@/data";
+
+// --- Local (imported) tests ----------------------------------------------------------------
+// Raw records live in localStorage and are re-validated on load, so a stored row can never bypass the import checks
+const LOCAL_TESTS_KEY = "localTests";
+
+export function useLocalTests() {
+  const [records, setRecords] = useState<ImportRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(LOCAL_TESTS_KEY) ?? "[]");
+      if (Array.isArray(stored)) setRecords(stored);
+    } catch {
+      // unreadable storage: start empty and overwrite it on the next import
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) localStorage.setItem(LOCAL_TESTS_KEY, JSON.stringify(records));
+  }, [records, loaded]);
+
+  const current = useMemo(() => importRecords(records), [records]);
+
+  // Re-importing a row with the same id replaces it
+  function importFile(text: string, fileName: string) {
+    const incoming = importText(text, fileName);
+    const ids = new Set(incoming.tests.map(t => t.id));
+    setRecords([...current.records.filter((_, i) => !ids.has(current.recordIds[i])), ...incoming.records]);
+    return incoming;
+  }
+
+  function remove(id: string) {
+    setRecords(current.records.filter((_, i) => current.recordIds[i] !== id));
+  }
+
+  return { tests: current.tests, importFile, remove, clear: () => setRecords([]) };
+}
+
+interface LocalTestsPanelProps {
+  tests: TestData[];
+  onImport: (text: string, fileName: string) => ImportResult;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+export function LocalTestsPanel({ tests, onImport, onRemove, onClear }: LocalTestsPanelProps) {
+  const [report, setReport] = useState<{ file: string; added: number; issues: string[] } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  async function readFile(file: File) {
+    const result = onImport(await file.text(), file.name);
+    setReport({ file: file.name, added: result.tests.length, issues: result.issues });
+    if (inputRef.current) inputRef.current.value = ""; // allow re-importing the same file
+  }
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <span>Local tests</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs text-sm">
+              Import CSV or JSON with the columns Test, Condition, Sensitivity, Specificity, LR+, LR-, Reference and ReferenceUrl (LR± are derived when left empty).
+              Add TP, FP, FN and TN for CIs, and a Study label on rows sharing Test and Condition to pool several studies. JSON rows may add Results (Label, Diseased and NonDiseased counts per category) for multi-level tests, or Unit and IntervalLrs (From, To, LR per range) with an optional StudiedRange for measured values.
+              Imported tests are stored in this browser only and marked &quot;local&quot; in the table.
+            </TooltipContent>
+          </Tooltip>
+          {tests.length > 0 && <Button className="btn btn-outline ml-auto" onClick={onClear}>Remove all</Button>}
+        </div>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          aria-label="Import tests from a CSV or JSON file"
+          className="block w-full text-sm"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) void readFile(file);
+          }}
+        />
+
+        {report && (
+          <div className="text-xs space-y-1" aria-live="polite">
+            <div>{report.file}: {report.added} test{report.added === 1 ? "" : "s"} imported{report.issues.length > 0 ? `, ${report.issues.length} problem${report.issues.length === 1 ? "" : "s"}` : ""}.</div>
+            {report.issues.length > 0 && (
+              <ul className="list-disc pl-5 space-y-0.5" style={{ color: "hsl(var(--danger))" }}>
+                {report.issues.map((issue, i) => (
+                  <li key={i}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {tests.length > 0 && (
+          <ul className="space-y-1">
+            {tests.map(t => (
+              <li key={t.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1">
+                  {t.test} <span className="text-xs text-muted-foreground">({t.condition})</span>
+                </span>
+                <Button className="btn btn-outline icon-btn" aria-label={`Remove ${t.test}`} onClick={() => onRemove(t.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
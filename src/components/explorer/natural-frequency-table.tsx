@@ -0,0 +1,62 @@
+import { naturalFrequencies, npv, ppv, probToOdds } from "@/lib/diagnostic-math";
+import type { TestData } from "@/data";
+import { fmtPct } from "@/components/explorer/format";
+import { Stat, type OutcomeKind } from "@/components/explorer/ui-bits";
+
+// --- Natural frequencies ("per 1,000 patients tested") ----------------------------
+export function NaturalFrequencyTable({ prevalence, test, total = 1000 }: { prevalence: number; test: TestData; total?: number }) {
+  const { tp, fp, fn, tn } = naturalFrequencies(prevalence, test.sensitivity, test.specificity, total);
+  const pos = tp + fp;
+  const neg = fn + tn;
+  // Exact (unrounded) summaries so small cohorts don't distort them; FP : TP is the inverse of the PPV's odds
+  const ppvValue = ppv(prevalence, test.sensitivity, test.specificity);
+  const npvValue = npv(prevalence, test.sensitivity, test.specificity);
+  const fpPerTp = Number.isNaN(ppvValue) ? NaN : 1 / probToOdds(ppvValue);
+  const nnt = test.sensitivity > 0 && prevalence > 0 ? 1 / (prevalence * test.sensitivity) : Infinity;
+
+  const cell = (n: number, kind: OutcomeKind, label: string) => (
+    <td className="px-3 py-2 tabular-nums">
+      <div className="flex items-center gap-2">
+        <span className={`swatch ${kind}`} aria-hidden="true" />
+        <span className="font-semibold">{n.toLocaleString()}</span>
+        <span className="text-xs text-muted-foreground">{label}</span>
+      </div>
+    </td>
+  );
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm border rounded-lg" aria-label={`Expected results per ${total.toLocaleString()} patients tested`}>
+        <thead>
+          <tr className="border-b">
+            <th scope="col" className="px-3 py-2 text-left font-medium text-xs text-muted-foreground">Per {total.toLocaleString()} tested</th>
+            <th scope="col" className="px-3 py-2 text-left font-medium">Condition present ({(tp + fn).toLocaleString()})</th>
+            <th scope="col" className="px-3 py-2 text-left font-medium">Condition absent ({(fp + tn).toLocaleString()})</th>
+            <th scope="col" className="px-3 py-2 text-left font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="border-b">
+            <th scope="row" className="px-3 py-2 text-left font-medium">Test positive</th>
+            {cell(tp, "tp", "TP")}
+            {cell(fp, "fp", "FP")}
+            <td className="px-3 py-2 tabular-nums">{pos.toLocaleString()}</td>
+          </tr>
+          <tr>
+            <th scope="row" className="px-3 py-2 text-left font-medium">Test negative</th>
+            {cell(fn, "fn", "FN")}
+            {cell(tn, "tn", "TN")}
+            <td className="px-3 py-2 tabular-nums">{neg.toLocaleString()}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <Stat label="PPV" value={Number.isNaN(ppvValue) ? "—" : fmtPct(ppvValue, 1)} hint={`${tp} of ${pos} positives`} />
+        <Stat label="NPV" value={Number.isNaN(npvValue) ? "—" : fmtPct(npvValue, 1)} hint={`${tn} of ${neg} negatives`} />
+        <Stat label="FP : TP" value={Number.isFinite(fpPerTp) ? `${fpPerTp.toFixed(1)} : 1` : "—"} hint="False alarms per case found" />
+        <Stat label="Number needed to test" value={Number.isFinite(nnt) ? nnt.toFixed(0) : "—"} hint="Tested to find one case" />
+      </div>
+    </div>
+  );
+}
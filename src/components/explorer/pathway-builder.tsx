@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { Info, ChevronDown, ChevronUp, Plus, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { accuracyFor } from "@/lib/accuracy";
+import type { TestResult } from "@/lib/url-state";
+import { chainPostTestProbs, combinedLr } from "@/lib/diagnostic-math";
+import type { TestData } from "@/data";
+import { Stat } from "@/components/explorer/ui-bits";
+
+// --- Sequential testing pathway ---------------------------------------------------------
+interface PathwayStep {
+  id: number;
+  testId: string;
+  result: TestResult;
+}
+
+function PathwayStepChart({ labels, probs }: { labels: string[]; probs: number[] }) {
+  const width = 360;
+  const height = 180;
+  const pad = { top: 12, right: 12, bottom: 28, left: 36 };
+  const innerW = width - pad.left - pad.right;
+  const innerH = height - pad.top - pad.bottom;
+  const stepW = innerW / probs.length;
+  const y = (p: number) => pad.top + (1 - p) * innerH;
+
+  // Horizontal run per step, vertical jump between steps
+  let d = "";
+  probs.forEach((p, i) => {
+    const x0 = pad.left + i * stepW;
+    d += i === 0 ? `M ${x0} ${y(p)}` : ` V ${y(p)}`;
+    d += ` H ${x0 + stepW}`;
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Step chart of probability after each test in the pathway">
+      {[0, 0.25, 0.5, 0.75, 1].map(t => (
+        <g key={t}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(t)} y2={y(t)} stroke="hsl(var(--border))" strokeWidth={1} />
+          <text x={pad.left - 6} y={y(t)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+        </g>
+      ))}
+      <path d={d} fill="none" stroke="hsl(var(--primary))" strokeWidth={2.5} />
+      {probs.map((p, i) => {
+        const cx = pad.left + (i + 0.5) * stepW;
+        return (
+          <g key={i}>
+            <circle cx={cx} cy={y(p)} r={3.5} fill="hsl(var(--primary))" />
+            <text x={cx} y={y(p) - 7} textAnchor="middle" fontSize={10} fill="hsl(var(--foreground))">{(p * 100).toFixed(0)}%</text>
+            <text x={cx} y={height - pad.bottom + 14} textAnchor="middle" fontSize={10} fill="hsl(var(--muted-foreground))">{labels[i]}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function PathwayBuilder({ prevalence, selected, tests: available }: { prevalence: number; selected: TestData | null; tests: TestData[] }) {
+  const [steps, setSteps] = useState<PathwayStep[]>([]);
+  const [nextId, setNextId] = useState(1);
+  const [pending, setPending] = useState<string>("");
+
+  function addStep(testId: string) {
+    if (!available.some(t => t.id === testId)) return;
+    setSteps(s => [...s, { id: nextId, testId, result: "positive" }]);
+    setNextId(n => n + 1);
+  }
+
+  // Steps whose local test has been removed are skipped (and come back if it is re-imported),
+  // so moves swap with the nearest step that is still shown
+  const shown = steps.filter(st => available.some(t => t.id === st.testId));
+
+  function moveStep(id: number, delta: -1 | 1) {
+    const i = shown.findIndex(st => st.id === id);
+    const other = shown[i + delta];
+    if (!other) return;
+    setSteps(s => {
+      const a = s.findIndex(st => st.id === id);
+      const b = s.findIndex(st => st.id === other.id);
+      const next = [...s];
+      [next[a], next[b]] = [next[b], next[a]];
+      return next;
+    });
+  }
+
+  function setStepResult(id: number, result: TestResult) {
+    setSteps(s => s.map(st => (st.id === id ? { ...st, result } : st)));
+  }
+
+  const tests = shown.map(st => available.find(t => t.id === st.testId)!);
+  const lrs = shown.map((st, i) => {
+    const acc = accuracyFor(tests[i]);
+    return (st.result === "positive" ? acc.lrPlus : acc.lrMinus).value;
+  });
+  const probs = chainPostTestProbs(prevalence, lrs);
+  const pathwayLr = combinedLr(lrs);
+  const labels = ["Pre-test", ...shown.map((_, i) => `Step ${i + 1}`)];
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <span>Testing pathway (serial tests)</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs text-sm">
+              Each test&apos;s post-test probability becomes the next test&apos;s pre-test probability, starting from the prevalence slider.
+              Chaining LRs assumes the tests are conditionally independent, which often overstates certainty for correlated tests.
+            </TooltipContent>
+          </Tooltip>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={pending} onValueChange={setPending}>
+            <SelectTrigger className="select-trigger w-full">
+              <SelectValue placeholder="Choose a test to add…" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(d => (
+                <SelectItem key={d.id} value={d.id}>{d.test} — {d.condition}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button className="btn btn-outline" disabled={!pending} onClick={() => addStep(pending)}>
+            <Plus className="h-4 w-4" /> Add
+          </Button>
+        </div>
+        {selected && (
+          <button className="text-xs underline underline-offset-2 hover:no-underline" onClick={() => addStep(selected.id)}>
+            Add selected test ({selected.test})
+          </button>
+        )}
+
+        {shown.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Add tests in the order they are performed, e.g. Wells Score → D-dimer (POC) → Ultrasound for DVT.
+          </div>
+        ) : (
+          <ol className="space-y-2">
+            {shown.map((st, i) => {
+              const t = tests[i];
+              return (
+                <li key={st.id} className="flex items-center gap-2 text-sm">
+                  <span className="tabular-nums text-muted-foreground w-5">{i + 1}.</span>
+                  <span className="flex-1">
+                    {t.test} <span className="text-xs text-muted-foreground">({t.condition})</span>
+                  </span>
+                  <Button className={st.result === "positive" ? "btn btn-primary" : "btn btn-outline"} onClick={() => setStepResult(st.id, "positive")}>+</Button>
+                  <Button className={st.result === "negative" ? "btn btn-primary" : "btn btn-outline"} onClick={() => setStepResult(st.id, "negative")}>−</Button>
+                  <span className="tabular-nums w-12 text-right">{(probs[i + 1] * 100).toFixed(0)}%</span>
+                  <Button className="btn btn-outline icon-btn" aria-label="Move step up" disabled={i === 0} onClick={() => moveStep(st.id, -1)}>
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button className="btn btn-outline icon-btn" aria-label="Move step down" disabled={i === shown.length - 1} onClick={() => moveStep(st.id, 1)}>
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button className="btn btn-outline icon-btn" aria-label="Remove step" onClick={() => setSteps(s => s.filter(x => x.id !== st.id))}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        <PathwayStepChart labels={labels} probs={probs} />
+
+        {shown.length > 0 && (
+          <div className="grid grid-cols-3 gap-4">
+            <Stat label="Pre-test prob" value={(probs[0] * 100).toFixed(0) + "%"} />
+            <Stat label="Combined LR" value={Number.isFinite(pathwayLr) ? pathwayLr.toFixed(2) : "—"} hint="Product of the step LRs" />
+            <Stat label="Final post-test prob" value={(probs[probs.length - 1] * 100).toFixed(1) + "%"} hint={`After ${shown.length} test${shown.length === 1 ? "" : "s"}`} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { accuracyFor } from "@/lib/accuracy";
+import { postTestProb } from "@/lib/diagnostic-math";
+import type { TestData } from "@/data";
+import type { ChosenResult } from "@/components/explorer/format";
+
+// --- Post-test probability curves ---------------------------------------------------
+const CURVE_W = 360;
+const CURVE_H = 240;
+const CURVE_PAD = { top: 12, right: 12, bottom: 32, left: 40 };
+const CURVE_STEPS = 100;
+const OVERLAY_COLORS = ["hsl(var(--warning))", "hsl(var(--success))", "hsl(200 80% 45%)", "hsl(300 50% 50%)", "hsl(25 80% 45%)"];
+
+const curveX = (p: number) => CURVE_PAD.left + p * (CURVE_W - CURVE_PAD.left - CURVE_PAD.right);
+const curveY = (p: number) => CURVE_PAD.top + (1 - p) * (CURVE_H - CURVE_PAD.top - CURVE_PAD.bottom);
+
+function curvePath(lr: number) {
+  let d = "";
+  for (let i = 0; i <= CURVE_STEPS; i++) {
+    const pre = i / CURVE_STEPS;
+    const post = postTestProb(pre, lr);
+    d += `${i === 0 ? "M" : " L"} ${curveX(pre).toFixed(1)} ${curveY(post).toFixed(1)}`;
+  }
+  return d;
+}
+
+interface PostTestCurvesProps {
+  prevalence: number; // 0–1
+  selected: TestData;
+  result?: ChosenResult | null; // one curve in place of the LR± pair
+  overlays: TestData[]; // other tests for the same condition (already filtered)
+}
+
+export function PostTestCurves({ prevalence, selected, result, overlays }: PostTestCurvesProps) {
+  const [showOverlays, setShowOverlays] = useState(false);
+  const acc = accuracyFor(selected);
+  const series = result
+    ? [{ key: "result", label: `${selected.test}: ${result.label}`, lr: result.lr, color: "hsl(var(--primary))", dashed: false }]
+    : [
+        { key: "pos", label: `${selected.test} +`, lr: acc.lrPlus.value, color: "hsl(var(--primary))", dashed: false },
+        { key: "neg", label: `${selected.test} −`, lr: acc.lrMinus.value, color: "hsl(var(--danger))", dashed: true },
+      ];
+  const overlaySeries = showOverlays
+    ? overlays.flatMap((t, i) => {
+        const a = accuracyFor(t);
+        const color = OVERLAY_COLORS[i % OVERLAY_COLORS.length];
+        return [
+          { key: `${t.id}-pos`, label: `${t.test} +`, lr: a.lrPlus.value, color, dashed: false },
+          { key: `${t.id}-neg`, label: `${t.test} −`, lr: a.lrMinus.value, color, dashed: true },
+        ];
+      })
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CURVE_W} ${CURVE_H}`} className="w-full h-auto" role="img" aria-label={`Post-test probability against pre-test probability for ${selected.test}`}>
+        {[0, 0.25, 0.5, 0.75, 1].map(t => (
+          <g key={t}>
+            <line x1={curveX(0)} x2={curveX(1)} y1={curveY(t)} y2={curveY(t)} stroke="hsl(var(--border))" />
+            <line x1={curveX(t)} x2={curveX(t)} y1={curveY(0)} y2={curveY(1)} stroke="hsl(var(--border))" />
+            <text x={curveX(0) - 6} y={curveY(t)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+            <text x={curveX(t)} y={curveY(0) + 14} textAnchor="middle" fontSize={10} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+          </g>
+        ))}
+        <text x={curveX(0.5)} y={CURVE_H - 4} textAnchor="middle" fontSize={10} fill="hsl(var(--foreground))">Pre-test probability</text>
+
+        {/* LR = 1: the test changes nothing */}
+        <line x1={curveX(0)} y1={curveY(0)} x2={curveX(1)} y2={curveY(1)} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 3" />
+
+        {overlaySeries.map(s => (
+          <path key={s.key} d={curvePath(s.lr)} fill="none" stroke={s.color} strokeWidth={1.25} strokeDasharray={s.dashed ? "5 3" : undefined} opacity={0.8} />
+        ))}
+        {series.map(s => (
+          <path key={s.key} d={curvePath(s.lr)} fill="none" stroke={s.color} strokeWidth={2.5} strokeDasharray={s.dashed ? "6 3" : undefined} />
+        ))}
+
+        <line x1={curveX(prevalence)} x2={curveX(prevalence)} y1={curveY(0)} y2={curveY(1)} stroke="hsl(var(--foreground))" strokeWidth={1} />
+        {series.map(s => (
+          <circle key={s.key} cx={curveX(prevalence)} cy={curveY(postTestProb(prevalence, s.lr))} r={4} fill={s.color} stroke="hsl(var(--background))" strokeWidth={1.5} />
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {[...series, ...overlaySeries].map(s => (
+          <span key={s.key} className="chip">
+            <svg width="18" height="6" aria-hidden="true"><line x1="0" y1="3" x2="18" y2="3" stroke={s.color} strokeWidth={2} strokeDasharray={s.dashed ? "4 2" : undefined} /></svg>
+            {s.label}
+          </span>
+        ))}
+      </div>
+
+      {overlays.length > 0 && (
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input type="checkbox" checked={showOverlays} onChange={e => setShowOverlays(e.target.checked)} />
+          Overlay other {selected.condition} tests ({overlays.length})
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Info } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { PREDICTION_RULES, stratumForScore, type PredictionRule, type TestData } from "@/data";
+import { Stat } from "@/components/explorer/ui-bits";
+import { type PrevalenceSource, toSliderPct } from "@/components/explorer/prevalence-source";
+
+// --- Clinical prediction rules ------------------------------------------------------
+// Answers are remembered per rule: item id → points of the chosen answer (unanswered: "no", or the first option)
+type RuleAnswers = Record<string, number>;
+
+function ruleScore(rule: PredictionRule, answers: RuleAnswers) {
+  return rule.items.reduce((sum, item) => sum + (answers[item.id] ?? item.options?.[0].points ?? 0), 0);
+}
+
+export function PredictionRuleCalculator({ selected, onApply }: { selected: TestData | null; onApply: (source: PrevalenceSource) => void }) {
+  const [ruleId, setRuleId] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, RuleAnswers>>({});
+
+  // Follow the selected test's condition until a rule is picked explicitly
+  const rule = PREDICTION_RULES.find(r => r.id === ruleId)
+    ?? PREDICTION_RULES.find(r => r.condition === selected?.condition)
+    ?? PREDICTION_RULES[0];
+  if (!rule) return null;
+
+  const ruleAnswers = answers[rule.id] ?? {};
+  const score = ruleScore(rule, ruleAnswers);
+  const stratum = stratumForScore(rule, score);
+  const pct = stratum?.probability != null ? toSliderPct(stratum.probability) : null;
+
+  function answer(itemId: string, points: number) {
+    setAnswers(a => ({ ...a, [rule.id]: { ...(a[rule.id] ?? {}), [itemId]: points } }));
+  }
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <span>Pre-test probability from a clinical rule</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs text-sm">
+              Each risk group carries the proportion of patients with the outcome in the derivation or validation study.
+              Applying it sets the prevalence slider; it only transfers to patients like those studied.
+            </TooltipContent>
+          </Tooltip>
+        </div>
+
+        <Select value={rule.id} onValueChange={setRuleId}>
+          <SelectTrigger className="select-trigger w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PREDICTION_RULES.map(r => (
+              <SelectItem key={r.id} value={r.id}>{r.name} — {r.condition}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {rule.note && <div className="text-xs text-muted-foreground">{rule.note}</div>}
+
+        <ul className="space-y-2">
+          {rule.items.map(item => (
+            <li key={item.id} className="flex items-center gap-2 text-sm">
+              {item.options ? (
+                <>
+                  <span className="flex-1">{item.label}</span>
+                  <Select
+                    value={String(item.options.findIndex(o => o.points === (ruleAnswers[item.id] ?? item.options![0].points)))}
+                    onValueChange={v => answer(item.id, item.options![Number(v)].points)}
+                  >
+                    <SelectTrigger className="select-trigger w-auto min-w-[10rem]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {item.options.map((o, i) => (
+                        <SelectItem key={i} value={String(i)}>{o.label} ({o.points > 0 ? "+" : ""}{o.points})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <label className="flex flex-1 items-center gap-2">
+                  <input type="checkbox" checked={(ruleAnswers[item.id] ?? 0) !== 0} onChange={e => answer(item.id, e.target.checked ? item.points! : 0)} />
+                  <span className="flex-1">{item.label}</span>
+                  <span className="tabular-nums text-muted-foreground">{item.points! > 0 ? "+" : ""}{item.points}</span>
+                </label>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Stat label="Score" value={String(score)} hint={stratum?.label} />
+          <Stat label={`Probability of ${rule.outcome}`} value={pct !== null ? `${pct}%` : "—"} hint={stratum?.note} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            className="btn btn-primary"
+            disabled={pct === null}
+            onClick={() => pct !== null && onApply({ value: pct, label: `${rule.name}: ${stratum!.label}`, reference: rule.reference, referenceUrl: rule.referenceUrl })}
+          >
+            {pct !== null ? `Use ${pct}% as pre-test probability` : "No pre-test probability for this group"}
+          </Button>
+          <Button className="btn btn-outline" disabled={Object.keys(ruleAnswers).length === 0} onClick={() => setAnswers(a => ({ ...a, [rule.id]: {} }))}>
+            Reset
+          </Button>
+        </div>
+
+        <div className="text-xs text-muted-foreground">
+          Source:{" "}
+          {rule.referenceUrl ? (
+            <a className="underline underline-offset-2 hover:no-underline" href={rule.referenceUrl} target="_blank" rel="noreferrer">{rule.reference}</a>
+          ) : (
+            rule.reference
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
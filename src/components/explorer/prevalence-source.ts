@@ -0,0 +1,21 @@
+import type { PrevalenceSetting } from "@/data";
+
+// --- Prevalence sources ----------------------------------------------------------------
+// Where the current pre-test probability came from, shown under the slider while it is unchanged
+export interface PrevalenceSource {
+  value: number; // %
+  label: string;
+  reference: string;
+  referenceUrl?: string;
+}
+
+export const SETTING_LABELS: Record<PrevalenceSetting, string> = {
+  screening: "Screening",
+  "primary-care": "Primary care",
+  emergency: "Emergency department",
+  inpatient: "Inpatient",
+  specialist: "Specialist referral",
+};
+
+// Slider positions are whole tenths of a percent
+export const toSliderPct = (p: number) => Math.round(p * 1000) / 10;
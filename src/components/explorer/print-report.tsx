@@ -0,0 +1,110 @@
+import { accuracyFor, type Estimate } from "@/lib/accuracy";
+import { formatCitation, type CitationStyle } from "@/lib/citations";
+import { DETAILS, type TestData } from "@/data";
+import { fmtPct, fmtPctCI, fmtRatioCI } from "@/components/explorer/format";
+import type { PrevalenceSource } from "@/components/explorer/prevalence-source";
+
+// --- Printable scenario report -----------------------------------------------------------
+// Rendered with the page but only shown by the print stylesheet (see ThemeVars), so "Print report" is just window.print()
+export const DISCLAIMER = "Built for teaching & quick bedside reasoning. Information displayed may not be up to date. Individual clinician responsible for cross referencing information displayed. Always consider the whole clinical picture.";
+
+const PRINT_CELL = 14;
+const PRINT_GAP = 3;
+
+// 10×10 grid as SVG so it prints as vector graphics (CSS backgrounds are dropped by most print dialogs)
+function PrintGrid({ fills, label }: { fills: string[]; label: string }) {
+  const size = 10 * PRINT_CELL + 9 * PRINT_GAP;
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} width={size} height={size} role="img" aria-label={label}>
+      {fills.map((fill, i) => (
+        <rect key={i} x={(i % 10) * (PRINT_CELL + PRINT_GAP)} y={Math.floor(i / 10) * (PRINT_CELL + PRINT_GAP)} width={PRINT_CELL} height={PRINT_CELL} rx={2} fill={fill} stroke="hsl(var(--border))" strokeWidth={0.5} />
+      ))}
+    </svg>
+  );
+}
+
+const gridFills = (count: number, on: string, off: string) => Array.from({ length: 100 }, (_, i) => (i < count ? on : off));
+
+interface PrintReportProps {
+  test: TestData;
+  prevalence: number; // 0–1
+  prevalenceSource: PrevalenceSource | null;
+  lrLabel: string;
+  lr: Estimate;
+  postTest: Estimate;
+  scenario: string; // e.g. "positive result" or "measured value 6.2 ng/mL"
+  citationStyle: CitationStyle;
+}
+
+export function PrintReport({ test, prevalence, prevalenceSource, lrLabel, lr, postTest, scenario, citationStyle }: PrintReportProps) {
+  const acc = accuracyFor(test);
+  const notes = DETAILS[test.id];
+  const tp = Math.round(test.sensitivity * 100);
+  const tn = Math.round(test.specificity * 100);
+  const success = "hsl(var(--success))";
+  const row = (label: string, value: string, range?: string) => (
+    <tr className="border-b">
+      <th scope="row" className="py-1 pr-4 text-left font-normal">{label}</th>
+      <td className="py-1 pr-4 font-semibold tabular-nums">{value}</td>
+      <td className="py-1 text-xs tabular-nums">{range ?? ""}</td>
+    </tr>
+  );
+
+  return (
+    <div className="print-only space-y-4 text-sm">
+      <div className="border-b pb-2">
+        <div className="text-xs" suppressHydrationWarning>Diagnostic Test Explorer — scenario report, {new Date().toLocaleDateString()}</div>
+        <h2 className="text-xl font-semibold">{test.test} for {test.condition}</h2>
+        <div>
+          Pre-test probability {fmtPct(prevalence, prevalence < 0.1 ? 1 : 0)}
+          {prevalenceSource && Math.abs(prevalenceSource.value - prevalence * 100) < 1e-9 && <> ({prevalenceSource.label}; {prevalenceSource.reference})</>}, {scenario}
+        </div>
+      </div>
+
+      <table className="w-full">
+        <tbody>
+          {row("Sensitivity", fmtPct(test.sensitivity), fmtPctCI(acc.sensitivity.ci))}
+          {row("Specificity", fmtPct(test.specificity), fmtPctCI(acc.specificity.ci))}
+          {row("LR+", acc.lrPlus.value.toFixed(2), fmtRatioCI(acc.lrPlus.ci))}
+          {row("LR−", acc.lrMinus.value.toFixed(2), fmtRatioCI(acc.lrMinus.ci))}
+          {row(`${lrLabel} used`, lr.value.toFixed(2), lr.corrected ? "continuity-corrected" : undefined)}
+          {row("Post-test probability", fmtPct(postTest.value, 1), fmtPctCI(postTest.ci, 1))}
+        </tbody>
+      </table>
+
+      <div className="flex gap-6">
+        <figure className="space-y-1">
+          <PrintGrid fills={gridFills(tp, success, "hsl(var(--danger))")} label={`${tp} true positives and ${100 - tp} false negatives per 100 with the condition`} />
+          <figcaption className="text-xs">100 with the condition: {tp} TP, {100 - tp} FN</figcaption>
+        </figure>
+        <figure className="space-y-1">
+          <PrintGrid fills={gridFills(tn, success, "hsl(var(--warning))")} label={`${tn} true negatives and ${100 - tn} false positives per 100 without the condition`} />
+          <figcaption className="text-xs">100 without: {tn} TN, {100 - tn} FP</figcaption>
+        </figure>
+        <figure className="space-y-1">
+          <PrintGrid fills={gridFills(Math.round(postTest.value * 100), "hsl(var(--primary))", "hsl(var(--muted))")} label={`${Math.round(postTest.value * 100)} in 100 have the condition after the test`} />
+          <figcaption className="text-xs">After the test: {Math.round(postTest.value * 100)} in 100 have it</figcaption>
+        </figure>
+      </div>
+
+      {notes?.caveats && notes.caveats.length > 0 && (
+        <div>
+          <div className="font-medium">Caveats</div>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {notes.caveats.map((c, i) => (
+              <li key={i}>{c}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="text-xs">
+        <span className="font-medium">Reference:</span> {formatCitation(test, citationStyle)}
+        {test.referenceUrl && !(citationStyle === "apa" && test.citation) && <> — {test.referenceUrl}</>}
+        {test.local && <> (imported locally, not part of the curated dataset)</>}
+      </div>
+
+      <div className="border-t pt-2 text-xs">{DISCLAIMER}</div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import type { TestData, ThresholdSet } from "@/data";
+import { fmtPct } from "@/components/explorer/format";
+
+// --- ROC curve for multi-threshold tests -------------------------------------------
+const ROC_SIZE = 240;
+const ROC_PAD = 32;
+const rocX = (fpr: number) => ROC_PAD + fpr * (ROC_SIZE - ROC_PAD - 8);
+const rocY = (tpr: number) => 8 + (1 - tpr) * (ROC_SIZE - ROC_PAD - 8);
+
+interface RocCurveProps {
+  test: TestData; // headline row estimate, shown for reference
+  set: ThresholdSet;
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+export function RocCurve({ test, set, activeIndex, onSelect }: RocCurveProps) {
+  const pts = set.points.map((p, i) => ({ ...p, i, fpr: 1 - p.specificity })).sort((a, b) => a.fpr - b.fpr);
+  const d = [{ fpr: 0, sensitivity: 0 }, ...pts, { fpr: 1, sensitivity: 1 }]
+    .map((p, i) => `${i === 0 ? "M" : "L"} ${rocX(p.fpr).toFixed(1)} ${rocY(p.sensitivity).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${ROC_SIZE} ${ROC_SIZE}`} className="w-full h-auto max-w-xs" role="img" aria-label={`ROC curve for ${test.test} across ${set.points.length} cutoffs`}>
+      <rect x={rocX(0)} y={rocY(1)} width={rocX(1) - rocX(0)} height={rocY(0) - rocY(1)} fill="none" stroke="hsl(var(--border))" />
+      <line x1={rocX(0)} y1={rocY(0)} x2={rocX(1)} y2={rocY(1)} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 3" />
+      {[0, 0.5, 1].map(t => (
+        <g key={t}>
+          <text x={rocX(t)} y={rocY(0) + 12} textAnchor="middle" fontSize={9} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+          <text x={rocX(0) - 4} y={rocY(t)} textAnchor="end" dominantBaseline="middle" fontSize={9} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+        </g>
+      ))}
+      <text x={rocX(0.5)} y={ROC_SIZE - 4} textAnchor="middle" fontSize={9} fill="hsl(var(--foreground))">1 − Specificity</text>
+      <text x={8} y={rocY(0.5)} textAnchor="middle" fontSize={9} fill="hsl(var(--foreground))" transform={`rotate(-90 8 ${rocY(0.5)})`}>Sensitivity</text>
+
+      <path d={d} fill="none" stroke="hsl(var(--primary))" strokeWidth={2} />
+      <rect x={rocX(1 - test.specificity) - 3.5} y={rocY(test.sensitivity) - 3.5} width={7} height={7} fill="none" stroke="hsl(var(--foreground))">
+        <title>Headline estimate: Se {fmtPct(test.sensitivity)}, Sp {fmtPct(test.specificity)}</title>
+      </rect>
+      {pts.map(p => (
+        <circle
+          key={p.i}
+          cx={rocX(p.fpr)}
+          cy={rocY(p.sensitivity)}
+          r={p.i === activeIndex ? 5.5 : 3.5}
+          fill={p.i === activeIndex ? "hsl(var(--primary))" : "hsl(var(--background))"}
+          stroke="hsl(var(--primary))"
+          strokeWidth={1.5}
+          style={{ cursor: "pointer" }}
+          onClick={() => onSelect(p.i)}
+        >
+          <title>{p.label}: Se {fmtPct(p.sensitivity, 1)}, Sp {fmtPct(p.specificity, 1)}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
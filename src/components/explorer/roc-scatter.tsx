@@ -0,0 +1,84 @@
+import { CONDITIONS, type TestData } from "@/data";
+import { fmtPct } from "@/components/explorer/format";
+
+// --- ROC-space scatter of the whole (filtered) dataset ---------------------------------
+const SCATTER_SIZE = 320;
+const SCATTER_PAD = 36;
+const scatterX = (fpr: number) => SCATTER_PAD + fpr * (SCATTER_SIZE - SCATTER_PAD - 10);
+const scatterY = (tpr: number) => 10 + (1 - tpr) * (SCATTER_SIZE - SCATTER_PAD - 10);
+const LR_PLUS_ISOLINES = [2, 5, 10];
+const LR_MINUS_ISOLINES = [0.5, 0.2, 0.1];
+
+// Hues spread evenly over the full condition list, so a condition keeps its colour when filters change;
+// conditions that only occur in imported local tests share a neutral colour
+const conditionColor = (condition: string) =>
+  CONDITIONS.includes(condition) ? `hsl(${Math.round((CONDITIONS.indexOf(condition) * 360) / CONDITIONS.length)} 65% 48%)` : "hsl(var(--muted-foreground))";
+
+export function RocScatter({ tests, selectedId, onSelect }: { tests: TestData[]; selectedId: string | null; onSelect: (t: TestData) => void }) {
+  const conditions = Array.from(new Set(tests.map(t => t.condition))).sort((a, b) => {
+    const ia = CONDITIONS.indexOf(a), ib = CONDITIONS.indexOf(b);
+    return ia < 0 || ib < 0 ? (ia < 0 ? 1 : 0) - (ib < 0 ? 1 : 0) || a.localeCompare(b) : ia - ib;
+  });
+  // LR+ = k: Se = k × FPR, from the origin; LR− = k: Se = 1 − k × (1 − FPR), into the top-right corner
+  const plusLine = (k: number) => ({ x2: Math.min(1, 1 / k), y2: Math.min(1, k) });
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${SCATTER_SIZE} ${SCATTER_SIZE}`} className="w-full h-auto max-w-md mx-auto" role="img" aria-label={`ROC-space scatter of ${tests.length} tests`}>
+        <rect x={scatterX(0)} y={scatterY(1)} width={scatterX(1) - scatterX(0)} height={scatterY(0) - scatterY(1)} fill="none" stroke="hsl(var(--border))" />
+        <line x1={scatterX(0)} y1={scatterY(0)} x2={scatterX(1)} y2={scatterY(1)} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 3" />
+        {LR_PLUS_ISOLINES.map(k => {
+          const { x2, y2 } = plusLine(k);
+          return (
+            <g key={`p${k}`}>
+              <line x1={scatterX(0)} y1={scatterY(0)} x2={scatterX(x2)} y2={scatterY(y2)} stroke="hsl(var(--primary) / 0.45)" strokeWidth={1} />
+              <text x={scatterX(x2) + 2} y={scatterY(y2) + 9} fontSize={8} fill="hsl(var(--primary))">LR+ {k}</text>
+            </g>
+          );
+        })}
+        {LR_MINUS_ISOLINES.map(k => (
+          <g key={`m${k}`}>
+            <line x1={scatterX(0)} y1={scatterY(1 - k)} x2={scatterX(1)} y2={scatterY(1)} stroke="hsl(var(--danger) / 0.45)" strokeWidth={1} />
+            <text x={scatterX(0) + 2} y={scatterY(1 - k) + 9} fontSize={8} fill="hsl(var(--danger))">LR− {k}</text>
+          </g>
+        ))}
+        {[0, 0.25, 0.5, 0.75, 1].map(t => (
+          <g key={t}>
+            <text x={scatterX(t)} y={scatterY(0) + 12} textAnchor="middle" fontSize={9} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+            <text x={scatterX(0) - 4} y={scatterY(t)} textAnchor="end" dominantBaseline="middle" fontSize={9} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+          </g>
+        ))}
+        <text x={scatterX(0.5)} y={SCATTER_SIZE - 6} textAnchor="middle" fontSize={10} fill="hsl(var(--foreground))">1 − Specificity (false-positive rate)</text>
+        <text x={10} y={scatterY(0.5)} textAnchor="middle" fontSize={10} fill="hsl(var(--foreground))" transform={`rotate(-90 10 ${scatterY(0.5)})`}>Sensitivity</text>
+
+        {tests.map(t => {
+          const active = t.id === selectedId;
+          return (
+            <circle
+              key={t.id}
+              cx={scatterX(1 - t.specificity)}
+              cy={scatterY(t.sensitivity)}
+              r={active ? 7 : 5}
+              fill={conditionColor(t.condition)}
+              fillOpacity={active ? 1 : 0.8}
+              stroke={active ? "hsl(var(--foreground))" : "hsl(var(--background))"}
+              strokeWidth={active ? 2 : 1}
+              style={{ cursor: "pointer" }}
+              onClick={() => onSelect(t)}
+            >
+              <title>{t.test} ({t.condition}): Se {fmtPct(t.sensitivity)}, Sp {fmtPct(t.specificity)}, LR+ {t.lrPlus.toFixed(2)}, LR− {t.lrMinus.toFixed(2)}</title>
+            </circle>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+        {conditions.map(c => (
+          <span key={c} className="inline-flex items-center gap-1">
+            <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: conditionColor(c) }} aria-hidden="true" />
+            {c}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { Info } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { wilsonInterval } from "@/lib/accuracy";
+import { poolAccuracy, type PooledProportion } from "@/lib/meta-analysis";
+import type { Interval, Study, TestData } from "@/data";
+import { fmtPct, fmtPctCI } from "@/components/explorer/format";
+
+// --- Multi-study pooling -----------------------------------------------------------------
+const FOREST_W = 140;
+const FOREST_H = 16;
+const forestX = (p: number) => 4 + p * (FOREST_W - 8);
+
+// One forest-plot cell on a 0–100% axis: a study's estimate and Wilson 95% CI (square area ∝ weight), or the pooled diamond
+function ForestMark({ value, ci, weight, pooled = false, muted = false }: { value: number; ci: Interval; weight?: number; pooled?: boolean; muted?: boolean }) {
+  const color = muted ? "hsl(var(--muted-foreground))" : "hsl(var(--primary))";
+  const mid = FOREST_H / 2;
+  const size = 3 + 8 * Math.sqrt(weight ?? 0);
+  return (
+    <svg viewBox={`0 0 ${FOREST_W} ${FOREST_H}`} width={FOREST_W} height={FOREST_H} aria-hidden="true" className="shrink-0">
+      {[0, 0.5, 1].map(t => (
+        <line key={t} x1={forestX(t)} x2={forestX(t)} y1={0} y2={FOREST_H} stroke="hsl(var(--border))" />
+      ))}
+      {pooled ? (
+        <polygon points={`${forestX(ci.lower)},${mid} ${forestX(value)},${mid - 5} ${forestX(ci.upper)},${mid} ${forestX(value)},${mid + 5}`} fill={color} />
+      ) : (
+        <>
+          <line x1={forestX(ci.lower)} x2={forestX(ci.upper)} y1={mid} y2={mid} stroke={color} />
+          <rect x={forestX(value) - size / 2} y={mid - size / 2} width={size} height={size} fill={muted ? "none" : color} stroke={color} />
+        </>
+      )}
+    </svg>
+  );
+}
+
+const heterogeneity = (p: PooledProportion) => `τ² ${p.tau2.toFixed(2)}, I² ${fmtPct(p.i2)}, Q ${p.q.toFixed(1)} on ${p.df} df`;
+
+interface StudiesPanelProps {
+  test: TestData | null;
+  excluded: readonly string[];
+  onToggle: (studyId: string) => void;
+}
+
+export function StudiesPanel({ test, excluded, onToggle }: StudiesPanelProps) {
+  const studies = test?.studies;
+  if (!test || !studies || studies.length < 2) return null;
+  const included = studies.filter(s => !excluded.includes(s.id));
+  const pooled = poolAccuracy(included.map(s => s.counts));
+  const weightOf = (s: Study, measure: "sensitivity" | "specificity") => {
+    const i = included.indexOf(s);
+    return i < 0 ? undefined : pooled[measure].weights[i];
+  };
+  const total = (s: Study) => s.counts.tp + s.counts.fp + s.counts.fn + s.counts.tn;
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <span>Studies: {included.length} of {studies.length} pooled</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs text-sm">
+              Sensitivity and specificity are pooled separately on the logit scale with a DerSimonian–Laird random-effects model.
+              Squares are study estimates with 95% CIs (bigger square, more weight); the diamond is the pooled estimate.
+              I² is the share of variation due to real differences between studies rather than chance. Untick a study to leave it out.
+            </TooltipContent>
+          </Tooltip>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="w-6" />
+                <th className="py-1 pr-2 text-left font-normal">Study</th>
+                <th className="py-1 pr-2 text-right font-normal">n</th>
+                <th className="py-1 pr-2 text-left font-normal">Sensitivity</th>
+                <th className="py-1 text-left font-normal">Specificity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {studies.map(s => {
+                const on = !excluded.includes(s.id);
+                const { tp, fp, fn, tn } = s.counts;
+                return (
+                  <tr key={s.id} className={on ? undefined : "text-muted-foreground"}>
+                    <td>
+                      <input type="checkbox" checked={on} disabled={on && included.length === 1} onChange={() => onToggle(s.id)} aria-label={`Include ${s.label} in the pooled estimate`} />
+                    </td>
+                    <td className="py-1 pr-2" title={[s.setting, s.reference].filter(Boolean).join(" — ")}>
+                      {s.referenceUrl ? (
+                        <a href={s.referenceUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:no-underline">{s.label}</a>
+                      ) : (
+                        s.label
+                      )}
+                    </td>
+                    <td className="py-1 pr-2 text-right tabular-nums">{total(s)}</td>
+                    <td className="py-1 pr-2">
+                      <div className="flex items-center gap-2">
+                        <ForestMark value={tp / (tp + fn)} ci={wilsonInterval(tp, tp + fn)} weight={weightOf(s, "sensitivity")} muted={!on} />
+                        <span className="tabular-nums">{fmtPct(tp / (tp + fn))}</span>
+                      </div>
+                    </td>
+                    <td className="py-1">
+                      <div className="flex items-center gap-2">
+                        <ForestMark value={tn / (tn + fp)} ci={wilsonInterval(tn, tn + fp)} weight={weightOf(s, "specificity")} muted={!on} />
+                        <span className="tabular-nums">{fmtPct(tn / (tn + fp))}</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              <tr className="border-t font-medium">
+                <td />
+                <td className="py-1 pr-2">Pooled (random effects)</td>
+                <td className="py-1 pr-2 text-right tabular-nums">{included.reduce((n, s) => n + total(s), 0)}</td>
+                <td className="py-1 pr-2">
+                  <div className="flex items-center gap-2">
+                    <ForestMark value={pooled.sensitivity.estimate} ci={pooled.sensitivity.ci} pooled />
+                    <span className="tabular-nums" title={fmtPctCI(pooled.sensitivity.ci)}>{fmtPct(pooled.sensitivity.estimate)}</span>
+                  </div>
+                </td>
+                <td className="py-1">
+                  <div className="flex items-center gap-2">
+                    <ForestMark value={pooled.specificity.estimate} ci={pooled.specificity.ci} pooled />
+                    <span className="tabular-nums" title={fmtPctCI(pooled.specificity.ci)}>{fmtPct(pooled.specificity.estimate)}</span>
+                  </div>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="text-xs text-muted-foreground leading-relaxed">
+          Heterogeneity: sensitivity {heterogeneity(pooled.sensitivity)}; specificity {heterogeneity(pooled.specificity)}.
+          Pooled LR+ {pooled.lrPlus.toFixed(2)}, LR− {pooled.lrMinus.toFixed(2)} (point estimates: Se and Sp are pooled separately).
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+import { ExternalLink, TriangleAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { citationLinks, formatCitation, type CitationStyle } from "@/lib/citations";
+import { auditDataset, DATA, DETAILS, PREVALENCE_PRESETS, type TestData } from "@/data";
+import { SETTING_LABELS, toSliderPct } from "@/components/explorer/prevalence-source";
+
+// --- Study notes & caveats ------------------------------------------------------------
+const DATA_AUDIT = auditDataset(DATA, DETAILS);
+
+// Formatted citation, linked to the source when the row has a link
+export function CitationText({ test, style }: { test: Pick<TestData, "id" | "reference" | "referenceUrl" | "citation">; style: CitationStyle }) {
+  const text = formatCitation(test, style);
+  return test.referenceUrl ? (
+    <a href={test.referenceUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:no-underline">
+      {text}
+    </a>
+  ) : (
+    <>{text}</>
+  );
+}
+
+export function StudyNotesPanel({ selected, citationStyle }: { selected: TestData | null; citationStyle: CitationStyle }) {
+  const k = selected ? selected.id : null;
+  const notes = (k && DETAILS[k]) || null;
+  const audit = k ? DATA_AUDIT.filter(i => i.testId === k && i.rule !== "missing-notes") : [];
+  const presets = selected ? PREVALENCE_PRESETS[selected.condition] ?? [] : [];
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-medium">Study notes & caveats</div>
+          {selected?.referenceUrl && (
+            <a
+              href={selected.referenceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 text-xs underline underline-offset-2 hover:no-underline"
+              aria-label="Open reference link"
+            >
+              Reference <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+
+        {!selected && (
+          <div className="text-sm text-muted-foreground">Select a test from the table to see study details.</div>
+        )}
+
+        {selected && (
+          <div className="space-y-3">
+            <div className="text-xs text-muted-foreground">{selected.test} — {selected.condition}</div>
+
+            {audit.length > 0 && (
+              <div className="rounded-lg border p-2 space-y-1" style={{ borderColor: 'hsl(var(--warning))', backgroundColor: 'hsl(var(--warning) / 0.08)' }}>
+                <div className="flex items-center gap-1 text-xs font-medium">
+                  <TriangleAlert className="h-3.5 w-3.5" style={{ color: 'hsl(var(--warning))' }} /> Data checks
+                </div>
+                <ul className="list-disc pl-5 text-xs space-y-1">
+                  {audit.map((issue, i) => (
+                    <li key={i}>{issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {notes ? (
+              <div className="space-y-3">
+                {notes.overview && (
+                  <div>
+                    <div className="text-xs text-muted-foreground">Overview</div>
+                    <p className="text-sm leading-relaxed">{notes.overview}</p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="text-xs text-muted-foreground font-medium">Study Characteristics</div>
+                  {notes.sampleSize && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Sample Size</span>
+                      <span className="text-sm font-medium">{notes.sampleSize}</span>
+                    </div>
+                  )}
+                  {notes.population && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Population</span>
+                      <span className="text-sm font-medium">{notes.population}</span>
+                    </div>
+                  )}
+                  {notes.setting && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Setting</span>
+                      <span className="text-sm font-medium">{notes.setting}</span>
+                    </div>
+                  )}
+                  {notes.design && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Design</span>
+                      <span className="text-sm font-medium">{notes.design}</span>
+                    </div>
+                  )}
+                  {notes.year && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-muted-foreground">Year</span>
+                      <span className="text-sm font-medium">{notes.year}</span>
+                    </div>
+                  )}
+                </div>
+
+                {notes.caveats && notes.caveats.length > 0 && (
+                  <div>
+                    <div className="text-xs text-muted-foreground">Caveats</div>
+                    <ul className="list-disc pl-5 text-sm space-y-1">
+                      {notes.caveats.map((c, i) => (
+                        <li key={i}>{c}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {notes.extra && (
+                  <div className="text-xs text-muted-foreground">{notes.extra}</div>
+                )}
+              </div>
+            ) : selected.local ? (
+              <div className="text-sm text-muted-foreground">
+                Imported into this browser from a local file; study notes are only available for the curated dataset.
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                No custom notes for this test yet. Add an entry to <code>src/data/study-notes.json</code> using id <code>{k}</code>.
+              </div>
+            )}
+
+            {presets.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground font-medium">Prevalence by setting ({selected.condition})</div>
+                <ul className="space-y-1">
+                  {presets.map((p, i) => (
+                    <li key={i} className="text-xs leading-relaxed">
+                      <span className="font-medium tabular-nums">{toSliderPct(p.prevalence)}%</span> {SETTING_LABELS[p.setting]} — {p.label}.{" "}
+                      {p.note && <span className="text-muted-foreground">{p.note} </span>}
+                      <span className="text-muted-foreground">
+                        Source:{" "}
+                        {p.referenceUrl ? (
+                          <a href={p.referenceUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:no-underline">{p.reference}</a>
+                        ) : (
+                          p.reference
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="pt-2 border-t text-xs text-muted-foreground leading-relaxed">
+              <span className="font-medium">Reference:</span> <CitationText test={selected} style={citationStyle} />
+              {selected.citation && citationLinks(selected.citation).length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-x-3">
+                  {citationLinks(selected.citation).map(l => (
+                    <a key={l.href} href={l.href} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 underline underline-offset-2 hover:no-underline">
+                      {l.label} <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
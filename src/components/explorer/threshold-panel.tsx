@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { Info } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { accuracyFor } from "@/lib/accuracy";
+import { clamp01, postTestProb } from "@/lib/diagnostic-math";
+import type { TestData } from "@/data";
+import { type ChosenResult, fmtPct } from "@/components/explorer/format";
+import { Stat } from "@/components/explorer/ui-bits";
+
+// --- Helpers: decision thresholds (Pauker & Kassirer, NEJM 1980) --------------------
+// benefit/harm: net utility of treating a patient with/without disease; testRisk: harm of the test itself (same units)
+interface DecisionThresholds {
+  test: number; // below: don't test, don't treat
+  treatment: number; // treat vs don't treat without testing
+  testTreatment: number; // above: treat empirically
+  testingUseful: boolean; // false when no pre-test probability makes testing worthwhile
+}
+
+function decisionThresholds(sensitivity: number, specificity: number, benefit: number, harm: number, testRisk: number): DecisionThresholds {
+  const treatment = benefit + harm > 0 ? harm / (harm + benefit) : 0.5;
+  const fpr = 1 - specificity;
+  const fnr = 1 - sensitivity;
+  const test = clamp01((fpr * harm + testRisk) / (fpr * harm + sensitivity * benefit));
+  const testTreatment = clamp01((specificity * harm - testRisk) / (specificity * harm + fnr * benefit));
+  if (!(test < testTreatment)) return { test: treatment, treatment, testTreatment: treatment, testingUseful: false };
+  return { test, treatment, testTreatment, testingUseful: true };
+}
+
+// --- Threshold panel -----------------------------------------------------------------
+const BAR_W = 360;
+const BAR_H = 96;
+const BAR_PAD_X = 12;
+const barX = (p: number) => BAR_PAD_X + clamp01(p) * (BAR_W - 2 * BAR_PAD_X);
+
+type Decision = "no-test" | "test" | "treat";
+
+const DECISION_LABELS: Record<Decision, string> = {
+  "no-test": "Don't test, don't treat",
+  test: "Test",
+  treat: "Treat empirically",
+};
+
+function decisionAt(p: number, th: DecisionThresholds): Decision {
+  if (p < th.test) return "no-test";
+  if (p > th.testTreatment) return "treat";
+  return "test";
+}
+
+export function ThresholdPanel({ prevalence, selected, result }: { prevalence: number; selected: TestData | null; result?: ChosenResult | null }) {
+  const [benefit, setBenefit] = useState(10);
+  const [harm, setHarm] = useState(2);
+  const [testRisk, setTestRisk] = useState(0.1);
+
+  const acc = selected ? accuracyFor(selected) : null;
+  const th = selected ? decisionThresholds(selected.sensitivity, selected.specificity, benefit, harm, testRisk) : null;
+  const decision = th ? decisionAt(prevalence, th) : null;
+  const postPos = acc ? postTestProb(prevalence, acc.lrPlus.value) : null;
+  const postNeg = acc ? postTestProb(prevalence, acc.lrMinus.value) : null;
+
+  const numberField = (label: string, value: number, set: (v: number) => void, hint: string) => (
+    <label className="space-y-1">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <Input className="input" type="number" min={0} step="any" value={value} title={hint} onChange={e => set(Math.max(0, Number(e.target.value) || 0))} />
+    </label>
+  );
+
+  return (
+    <Card className="card">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-1 text-sm font-medium">
+          <span>Test & treatment thresholds</span>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Info className="h-4 w-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-xs text-sm">
+              Pauker–Kassirer threshold model. Enter the net benefit of treating someone with the condition, the net harm of treating someone without it,
+              and the harm of the test itself, all in the same units (e.g. QALYs or % risk). Below the testing threshold, don&apos;t test; above the
+              test-treatment threshold, treat without testing; in between, the test result should change management.
+            </TooltipContent>
+          </Tooltip>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          {numberField("Treatment benefit", benefit, setBenefit, "Net benefit of treating a patient who has the condition")}
+          {numberField("Treatment harm", harm, setHarm, "Net harm of treating a patient who does not have the condition")}
+          {numberField("Test risk", testRisk, setTestRisk, "Harm of performing the test, regardless of disease status")}
+        </div>
+
+        {!selected || !th ? (
+          <div className="text-sm text-muted-foreground">Select a test from the table to compute its thresholds.</div>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${BAR_W} ${BAR_H}`} className="w-full h-auto" role="img" aria-label={`Decision zones for ${selected.test}; current pre-test probability falls in: ${DECISION_LABELS[decision!]}`}>
+              <rect x={barX(0)} y={28} width={barX(th.test) - barX(0)} height={18} fill="hsl(var(--muted))" />
+              <rect x={barX(th.test)} y={28} width={barX(th.testTreatment) - barX(th.test)} height={18} fill="hsl(var(--primary) / 0.35)" />
+              <rect x={barX(th.testTreatment)} y={28} width={barX(1) - barX(th.testTreatment)} height={18} fill="hsl(var(--danger) / 0.35)" />
+              <rect x={barX(0)} y={28} width={barX(1) - barX(0)} height={18} fill="none" stroke="hsl(var(--border))" />
+
+              {/* treatment threshold */}
+              <line x1={barX(th.treatment)} x2={barX(th.treatment)} y1={24} y2={50} stroke="hsl(var(--foreground))" strokeDasharray="3 2" />
+              <text x={barX(th.treatment)} y={18} textAnchor="middle" fontSize={9} fill="hsl(var(--muted-foreground))">Rx {fmtPct(th.treatment)}</text>
+
+              {/* pre-test and post-test markers on the same axis; a category or measured value has a single post-test marker */}
+              {[
+                ...(result
+                  ? [{ p: postTestProb(prevalence, result.lr), label: "Post", color: "hsl(var(--primary))" }]
+                  : [
+                      { p: postNeg!, label: "−", color: "hsl(var(--danger))" },
+                      { p: postPos!, label: "+", color: "hsl(var(--primary))" },
+                    ]),
+                { p: prevalence, label: "Pre", color: "hsl(var(--foreground))" },
+              ].map(m => (
+                <g key={m.label}>
+                  <path d={`M ${barX(m.p)} 50 l -5 9 h 10 z`} fill={m.color} />
+                  <text x={barX(m.p)} y={70} textAnchor="middle" fontSize={9} fill={m.color}>{m.label}</text>
+                </g>
+              ))}
+
+              {[0, 0.25, 0.5, 0.75, 1].map(t => (
+                <text key={t} x={barX(t)} y={90} textAnchor="middle" fontSize={9} fill="hsl(var(--muted-foreground))">{t * 100}%</text>
+              ))}
+            </svg>
+
+            <div className="grid grid-cols-3 gap-4">
+              <Stat label="Testing threshold" value={th.testingUseful ? fmtPct(th.test, 1) : "—"} />
+              <Stat label="Treatment threshold" value={fmtPct(th.treatment, 1)} />
+              <Stat label="Test-treatment threshold" value={th.testingUseful ? fmtPct(th.testTreatment, 1) : "—"} />
+            </div>
+
+            <div className="text-sm">
+              At a pre-test probability of {fmtPct(prevalence)}: <span className="font-semibold">{DECISION_LABELS[decision!]}</span>
+              {!th.testingUseful && (
+                <span className="text-muted-foreground"> — with these inputs {selected.test} is never worth doing; decide on the treatment threshold alone.</span>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
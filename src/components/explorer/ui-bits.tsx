@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Moon, SunMedium } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// --- UI Bits ------------------------------------------------------------------------
+export function ThemeVars() {
+  return (
+    <style>{`
+      :root {
+        --background: 0 0% 100%;
+        --foreground: 222.2 47.4% 11.2%;
+        --muted: 210 40% 96.1%;
+        --muted-foreground: 215.4 16.3% 46.9%;
+        --primary: 221.2 83.2% 53.3%;
+        --primary-foreground: 210 40% 98%;
+        --border: 214.3 31.8% 91.4%;
+        --success: 142 71% 45%;
+        --warning: 38 92% 50%;
+        --danger: 0 84% 60%;
+      }
+      .dark {
+        --background: 222.2 84% 4.9%;
+        --foreground: 210 40% 98%;
+        --muted: 217.2 32.6% 17.5%;
+        --muted-foreground: 210 20% 85%;
+        --primary: 263.4 70% 50.4%;
+        --primary-foreground: 210 40% 98%;
+        --border: 217.2 32.6% 17.5%;
+      }
+      /* Map tokens to real colors */
+      .bg-background { background-color: hsl(var(--background)); }
+      .text-foreground { color: hsl(var(--foreground)); }
+      .bg-muted { background-color: hsl(var(--muted)); }
+      .text-muted-foreground { color: hsl(var(--muted-foreground)); }
+      .bg-primary { background-color: hsl(var(--primary)); }
+      .border { border-color: hsl(var(--border)); }
+      .tabular-nums { font-variant-numeric: tabular-nums; }
+      .border-primary { border-color: hsl(var(--primary)); }
+
+      /* --- Portable, file-local UI styles --- */
+      .dx { -webkit-font-smoothing: antialiased; -moz-osx-font-smoothing: grayscale; }
+
+      /* Cards */
+      .dx .card { border-radius: 1rem; border: 1px solid hsl(var(--border)); box-shadow: 0 4px 14px hsl(0 0% 0% / 0.06); background-color: hsl(var(--background)); }
+
+      /* Buttons */
+      .dx .btn { border-radius: 0.75rem; padding: 0.5rem 0.75rem; border: 1px solid hsl(var(--border)); background: hsl(var(--background)); color: hsl(var(--foreground)); cursor: pointer; transition: transform .05s ease, background-color .15s ease, border-color .15s ease; }
+      .dx .btn:hover { background: hsl(var(--muted)); }
+      .dx .btn:active { transform: translateY(1px); }
+      .dx .btn-primary { background: hsl(var(--primary)); color: hsl(var(--primary-foreground)); border-color: hsl(var(--primary)); }
+      .dx .btn-primary:hover { filter: brightness(1.05); }
+      .dx .btn-outline { background: transparent; }
+      .dx .icon-btn { width: 2.25rem; height: 2.25rem; display: inline-flex; align-items: center; justify-content: center; padding: 0; }
+      .dx .btn:focus-visible { outline: 2px solid hsl(var(--primary)); outline-offset: 2px; }
+
+      /* Inputs */
+      .dx .input, .dx .select-trigger { width: 100%; border-radius: 0.75rem; border: 1px solid hsl(var(--border)); background: hsl(var(--background)); color: hsl(var(--foreground)); padding: 0.5rem 0.75rem; }
+      .dx .input:focus, .dx .select-trigger:focus { outline: 2px solid hsl(var(--primary)); outline-offset: 2px; }
+
+      /* Table */
+      .dx table thead th { position: sticky; top: 0; color: hsl(var(--foreground)); background: hsl(var(--muted) / 0.70); backdrop-filter: blur(4px); }
+      .dx table tbody tr.row { transition: background-color .15s ease; }
+      .dx table tbody tr.row:hover { background: hsl(var(--muted) / 0.40); }
+      .dx table tbody tr.row.active { background: hsl(var(--primary) / 0.08); }
+
+      /* Dark-mode specific nudges for contrast */
+      .dark .dx .btn-outline { border-color: hsl(var(--border)); }
+      /* Force universally light text in dark mode for legibility */
+      .dark .dx, .dark .dx table td, .dark .dx table th { color: hsl(var(--foreground)); }
+      .dark .dx .text-muted-foreground { color: hsl(var(--foreground)); }
+      .dark .dx .card { box-shadow: 0 8px 22px hsl(0 0% 0% / 0.35); }
+      .dark .dx table thead { border-bottom-color: hsl(var(--border)); }
+      .dark {
+        /* ADD: dark-tuned variants */
+        --success: 142 64% 45%;
+        --warning: 38 92% 58%;
+        --danger: 0 84% 60%;
+      }
+
+      /* ADD: shared grid cell styles */
+      .dx .cell { height: 1rem; width: 1rem; border-radius: 0.2rem; border: 1px solid hsl(var(--border)); }
+      .dx .cell.tp { background-color: hsl(var(--success) / 0.95); border-color: hsl(var(--success)); }    /* True Positive / True Negative (correct) */
+      .dx .cell.tn { background-color: hsl(var(--success) / 0.95); border-color: hsl(var(--success)); }
+      .dx .cell.fp { background-color: hsl(var(--warning) / 0.95); border-color: hsl(var(--warning)); }   /* False Positive */
+      .dx .cell.fn { background-color: hsl(var(--danger) / 0.95);  border-color: hsl(var(--danger)); }    /* False Negative */
+
+      /* Legend chips */
+      .dx .chip { display:inline-flex; align-items:center; gap:0.4rem; padding:0.25rem 0.5rem; border-radius:0.5rem; border:1px solid hsl(var(--border)); }
+      .dx .swatch { width:0.85rem; height:0.85rem; border-radius:0.2rem; border:1px solid hsl(var(--border)); }
+      .dx .swatch.tp, .dx .swatch.tn { background-color: hsl(var(--success) / 0.95); border-color: hsl(var(--success)); }
+      .dx .swatch.fp { background-color: hsl(var(--warning) / 0.95); border-color: hsl(var(--warning)); }
+      .dx .swatch.fn { background-color: hsl(var(--danger) / 0.95); border-color: hsl(var(--danger)); }
+
+      /* Print: only the scenario report, always in the light palette */
+      .dx .print-only { display: none; }
+      @media print {
+        @page { margin: 12mm; }
+        .dark {
+          --background: 0 0% 100%;
+          --foreground: 222.2 47.4% 11.2%;
+          --muted: 210 40% 96.1%;
+          --muted-foreground: 215.4 16.3% 46.9%;
+          --primary: 221.2 83.2% 53.3%;
+          --border: 214.3 31.8% 91.4%;
+          --success: 142 71% 45%;
+          --warning: 38 92% 50%;
+        }
+        .dx { background: white !important; color: black !important; }
+        .dx .screen-only { display: none !important; }
+        .dx .print-only { display: block; }
+        .dx .print-only table { break-inside: avoid; }
+      }
+
+    `}</style>
+  );
+}
+
+export function DarkModeToggle() {
+  const [dark, setDark] = useState(false);
+
+  // Initialize from localStorage or system preference
+  useEffect(() => {
+    const stored = typeof window !== 'undefined' ? localStorage.getItem("theme") : null;
+    const prefersDark = typeof window !== 'undefined' && window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
+    const shouldDark = stored ? stored === 'dark' : prefersDark;
+    setDark(!!shouldDark);
+    const root = document.documentElement;
+    if (shouldDark) root.classList.add("dark"); else root.classList.remove("dark");
+  }, []);
+
+  // Persist + toggle class on change
+  useEffect(() => {
+    const root = document.documentElement;
+    if (dark) {
+      root.classList.add("dark");
+      localStorage.setItem('theme', 'dark');
+    } else {
+      root.classList.remove("dark");
+      localStorage.setItem('theme', 'light');
+    }
+  }, [dark]);
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      className="btn btn-outline icon-btn"
+      aria-label="Toggle dark mode"
+      title="Toggle dark mode"
+      onClick={() => setDark(v => !v)}
+    >
+      {dark ? <SunMedium className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+    </Button>
+  );
+}
+
+interface StatProps {
+  label: string;
+  value: string;
+  range?: string; // e.g. "95% CI 69–86%"
+  hint?: string;
+}
+
+export function Stat({ label, value, range, hint }: StatProps) {
+  return (
+    <div className="flex flex-col">
+      <div className="text-xs text-muted-foreground uppercase tracking-wide">{label}</div>
+      <div className="text-lg font-semibold" aria-live="polite">{value}</div>
+      {range && <div className="text-xs tabular-nums">{range}</div>}
+      {hint && <div className="text-xs text-muted-foreground">{hint}</div>}
+    </div>
+  );
+}
+
+interface TenByTenGridProps {
+  probability: number;
+}
+
+export function TenByTenGrid({ probability }: TenByTenGridProps) {
+  const count = Math.round(probability * 100);
+  const activeStyle = { backgroundColor: 'hsl(var(--primary) / 0.90)', borderColor: 'hsl(var(--primary))' } as React.CSSProperties;
+  const mutedStyle = { backgroundColor: 'hsl(var(--muted))', borderColor: 'hsl(var(--border))' } as React.CSSProperties;
+  return (
+    <div className="grid grid-cols-10 gap-1">
+      {Array.from({ length: 100 }).map((_, i) => (
+        <div
+          key={i}
+          className={"h-4 w-4 rounded-sm border"}
+          style={i < count ? activeStyle : mutedStyle}
+          aria-hidden="true"
+        />
+      ))}
+    </div>
+  );
+}
+
+export type OutcomeKind = "tp" | "tn" | "fp" | "fn";
+
+export function OutcomeGrid({
+  total = 100,
+  correctCount,
+  incorrectCount,
+  correctClass,   // "tp" or "tn"
+  incorrectClass, // "fp" or "fn"
+  ariaLabel
+}: {
+  total?: number;
+  correctCount: number;
+  incorrectCount: number;
+  correctClass: "tp" | "tn";
+  incorrectClass: "fp" | "fn";
+  ariaLabel: string;
+}) {
+  const cells: OutcomeKind[] = [];
+  for (let i = 0; i < correctCount; i++) cells.push(correctClass);
+  for (let i = 0; i < incorrectCount; i++) cells.push(incorrectClass);
+  while (cells.length < total) cells.push(correctClass); // should not happen, safety
+
+  return (
+    <div className="grid grid-cols-10 gap-1" role="img" aria-label={ariaLabel}>
+      {cells.slice(0, total).map((k, i) => (
+        <div key={i} className={`cell ${k}`} aria-hidden="true" />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { SortConfig } from "@/lib/url-state";
+import type { TestData } from "@/data";
+
+// --- Sortable table ----------------------------------------------------------------------
+export function useSortableData(items: TestData[], config: SortConfig | null = null) {
+  const [sortConfig, setSortConfig] = useState<SortConfig | null>(config);
+  const sortedItems = useMemo(() => {
+    const sortable = [...items];
+    if (sortConfig !== null) {
+      sortable.sort((a, b) => {
+        const { key, direction } = sortConfig;
+        const va = a[key];
+        const vb = b[key];
+        const aVal = va ?? (typeof vb === 'number' ? 0 : '');
+        const bVal = vb ?? (typeof va === 'number' ? 0 : '');
+        if (aVal < bVal) return direction === "asc" ? -1 : 1;
+        if (aVal > bVal) return direction === "asc" ? 1 : -1;
+        return 0;
+      });
+    }
+    return sortable;
+  }, [items, sortConfig]);
+
+  function requestSort(key: keyof TestData) {
+    let direction: "asc" | "desc" = "asc";
+    if (sortConfig && sortConfig.key === key && sortConfig.direction === "asc") direction = "desc";
+    setSortConfig({ key, direction });
+  }
+
+  return { items: sortedItems, requestSort, sortConfig };
+}
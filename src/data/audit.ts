@@ -0,0 +1,156 @@
+import { lrNegative, lrPositive } from "../lib/diagnostic-math";
+import type { StudyNotes, TestData } from "./schema";
+
+/**
+ * Dataset consistency audit
+ * - Recomputes LR± from Se/Sp and flags reported values that disagree beyond a tolerance
+ * - Checks reference URL shape and the PMID / PMCID / DOI embedded in it
+ * - Finds one URL cited for different references
+ * - Checks that every test has a study-notes entry
+ *
+ * Unlike the loader's schema validation (which rejects malformed files), these are
+ * plausibility checks on well-formed data, so they are reported rather than thrown.
+ * Used by the study-notes panel and by `npm run audit:data`.
+ */
+
+export type AuditSeverity = "error" | "warning";
+
+export type AuditRule = "lr-mismatch" | "url-shape" | "identifier-format" | "duplicate-reference" | "missing-notes";
+
+export interface AuditIssue {
+  severity: AuditSeverity;
+  rule: AuditRule;
+  testId: string;
+  test: string;
+  message: string;
+}
+
+export interface AuditOptions {
+  lrTolerance?: number; // maximum relative difference between reported and recomputed LR (default 5%)
+}
+
+export const DEFAULT_LR_TOLERANCE = 0.05;
+
+// Reported LRs are given to 2 decimal places; differences below half a unit are rounding, not errors
+const LR_ROUNDING = 0.005 + 1e-9;
+
+const PMID_PATTERN = /^\d{1,8}$/;
+const PMCID_PATTERN = /^PMC\d{1,9}$/;
+const DOI_PATTERN = /^10\.\d{4,9}\/[-._;()/:A-Za-z0-9]+$/;
+
+function checkLr(t: TestData, opts: Required<AuditOptions>): AuditIssue[] {
+  const issues: AuditIssue[] = [];
+  const expected = {
+    "LR+": lrPositive(t.sensitivity, t.specificity),
+    "LR-": lrNegative(t.sensitivity, t.specificity),
+  };
+  const reported = { "LR+": t.lrPlus, "LR-": t.lrMinus };
+
+  for (const key of ["LR+", "LR-"] as const) {
+    const e = expected[key];
+    const r = reported[key];
+    if (!Number.isFinite(e)) continue; // Sp of 0 or 1 — nothing meaningful to compare against
+    const abs = Math.abs(r - e);
+    const rel = e === 0 ? (r === 0 ? 0 : Infinity) : abs / e;
+    if (abs > LR_ROUNDING && rel > opts.lrTolerance) {
+      issues.push({
+        severity: "error",
+        rule: "lr-mismatch",
+        testId: t.id,
+        test: t.test,
+        message: `${key} is reported as ${r.toFixed(2)} but Se ${t.sensitivity} / Sp ${t.specificity} give ${e.toFixed(2)} (${(rel * 100).toFixed(0)}% off)`,
+      });
+    }
+  }
+  return issues;
+}
+
+function checkUrl(t: TestData): AuditIssue[] {
+  if (!t.referenceUrl) return [];
+  const issue = (severity: AuditSeverity, rule: AuditRule, message: string): AuditIssue => ({ severity, rule, testId: t.id, test: t.test, message });
+  const raw = t.referenceUrl;
+
+  if ((raw.match(/https?:\/\//g) ?? []).length > 1) {
+    return [issue("error", "url-shape", `ReferenceUrl contains more than one URL: ${raw}`)];
+  }
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return [issue("error", "url-shape", `ReferenceUrl is not a valid URL: ${raw}`)];
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    return [issue("error", "url-shape", `ReferenceUrl must use http(s), got ${url.protocol}`)];
+  }
+
+  const issues: AuditIssue[] = [];
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (url.hostname === "pubmed.ncbi.nlm.nih.gov") {
+    const pmid = segments[0] ?? "";
+    if (!PMID_PATTERN.test(pmid) || segments.length !== 1) issues.push(issue("error", "identifier-format", `PubMed URL does not end in a single PMID: ${raw}`));
+  } else if (url.hostname.endsWith("ncbi.nlm.nih.gov") && segments[0] === "articles") {
+    const pmcid = segments[1] ?? "";
+    if (!PMCID_PATTERN.test(pmcid)) issues.push(issue("error", "identifier-format", `PMC URL does not contain a valid PMCID: ${raw}`));
+  } else if (url.hostname === "doi.org" || url.hostname === "dx.doi.org") {
+    const doi = decodeURIComponent(url.pathname.slice(1));
+    if (!DOI_PATTERN.test(doi)) issues.push(issue("error", "identifier-format", `doi.org URL does not contain a valid DOI: ${raw}`));
+  } else {
+    // DOIs passed as query parameters (e.g. ?id=10.4111/…)
+    for (const value of url.searchParams.values()) {
+      if (value.startsWith("10.") && !DOI_PATTERN.test(value)) issues.push(issue("error", "identifier-format", `Query parameter looks like a DOI but is malformed: ${value}`));
+    }
+  }
+  if (url.hash.startsWith("#:~:text=")) {
+    issues.push(issue("warning", "url-shape", "ReferenceUrl carries a text-fragment highlight; link to the article itself"));
+  }
+  return issues;
+}
+
+// Normalise for comparison: ignore protocol, trailing slash and fragments
+function urlKey(raw: string) {
+  try {
+    const u = new URL(raw);
+    return (u.hostname + u.pathname).replace(/\/+$/, "").toLowerCase();
+  } catch {
+    return raw.trim().toLowerCase();
+  }
+}
+
+function checkDuplicateReferences(rows: TestData[]): AuditIssue[] {
+  const byUrl = new Map<string, TestData[]>();
+  for (const t of rows) {
+    if (!t.referenceUrl) continue;
+    const k = urlKey(t.referenceUrl);
+    byUrl.set(k, [...(byUrl.get(k) ?? []), t]);
+  }
+
+  const issues: AuditIssue[] = [];
+  for (const group of byUrl.values()) {
+    const citations = new Set(group.map(t => t.reference));
+    if (citations.size < 2) continue; // same paper cited for several tests is fine
+    for (const t of group) {
+      const others = group.filter(o => o.reference !== t.reference).map(o => `${o.test} (${o.reference})`);
+      issues.push({
+        severity: "warning",
+        rule: "duplicate-reference",
+        testId: t.id,
+        test: t.test,
+        message: `ReferenceUrl is shared with a different citation: ${others.join("; ")}`,
+      });
+    }
+  }
+  return issues;
+}
+
+export function auditDataset(rows: TestData[], details: Readonly<Record<string, StudyNotes>>, options: AuditOptions = {}): AuditIssue[] {
+  const opts: Required<AuditOptions> = { lrTolerance: options.lrTolerance ?? DEFAULT_LR_TOLERANCE };
+  const issues: AuditIssue[] = [];
+  for (const t of rows) {
+    issues.push(...checkLr(t, opts), ...checkUrl(t));
+    if (!details[t.id]) {
+      issues.push({ severity: "warning", rule: "missing-notes", testId: t.id, test: t.test, message: `No study-notes entry for id "${t.id}"` });
+    }
+  }
+  issues.push(...checkDuplicateReferences(rows));
+  return issues;
+}
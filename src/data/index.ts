@@ -0,0 +1,631 @@
+import { lrNegative, lrPositive } from "../lib/diagnostic-math";
+import testsJson from "./tests.json";
+import notesJson from "./study-notes.json";
+import rulesJson from "./prediction-rules.json";
+import presetsJson from "./prevalence-presets.json";
+import type { Citation, Interval, IntervalLrSet, PredictionRule, PredictionRulesFile, PredictionRuleStratum, PrevalencePreset, PrevalencePresetsFile, RawCitation, RawRow, RawStudy, RawSubgroup, ResultScale, Study, StudyNotes, StudyNotesFile, Subgroup, TestData, TestsFile, ThresholdSet, TwoByTwo } from "./schema";
+
+export type {
+  Citation,
+  Interval,
+  IntervalLrSet,
+  OperatingPoint,
+  PredictionRule,
+  PredictionRuleItem,
+  PredictionRuleOption,
+  PredictionRuleStratum,
+  PrevalencePreset,
+  PrevalenceSetting,
+  RawRow,
+  ResultCategory,
+  ResultScale,
+  Study,
+  StudyNotes,
+  Subgroup,
+  TestData,
+  ThresholdDirection,
+  ThresholdSet,
+  TwoByTwo,
+  ValueStratum,
+} from "./schema";
+export { auditDataset, DEFAULT_LR_TOLERANCE, type AuditIssue, type AuditOptions, type AuditRule, type AuditSeverity } from "./audit";
+export { importRecords, importText, LOCAL_ID_PREFIX, parseCsv, type ImportRecord, type ImportResult } from "./local-import";
+
+/**
+ * Dataset loader
+ * - Validates tests.json and study-notes.json against the schema when the module loads,
+ *   so `next build` (and `next dev`) fail with a readable list of problems
+ * - Joins notes to tests by stable `Id`, never by display name
+ * - Checks structured citations (authors, year, bare PMID/PMCID/DOI identifiers)
+ * - Requires full 2×2 counts for every study of a multi-study test
+ * - Checks subgroup variants (unique ids, Se/Sp, CIs, their own reference)
+ * - Checks multi-level result categories (counts with and without the condition)
+ * - Refuses notes written against a different dataset version
+ * - Validates clinical prediction rules and ties each one to a dataset condition
+ * - Requires cited prevalence presets for every condition
+ */
+
+export class DatasetValidationError extends Error {
+  issues: string[];
+
+  constructor(file: string, issues: string[]) {
+    super(`Invalid ${file}:\n` + issues.map(i => `  - ${i}`).join("\n"));
+    this.name = "DatasetValidationError";
+    this.issues = issues;
+  }
+}
+
+// --- Validation ---------------------------------------------------------------------
+const ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const NOTE_TEXT_FIELDS = ["overview", "sampleSize", "population", "setting", "design", "year", "extra", "source"] as const;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.trim().length > 0;
+const isProportion = (v: unknown): v is number => typeof v === "number" && v >= 0 && v <= 1;
+const isCount = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v) && v >= 0;
+
+function checkThresholds(row: Record<string, unknown>, at: string, issues: string[]) {
+  const thresholds = row["Thresholds"];
+  if (thresholds === undefined) {
+    for (const key of ["Direction", "ThresholdsReference", "ThresholdsReferenceUrl"]) {
+      if (row[key] !== undefined) issues.push(`${at}.${key}: only allowed together with Thresholds`);
+    }
+    return;
+  }
+  if (!Array.isArray(thresholds) || thresholds.length === 0) {
+    issues.push(`${at}.Thresholds: expected a non-empty array`);
+    return;
+  }
+  if (row["Direction"] !== undefined && row["Direction"] !== "higher" && row["Direction"] !== "lower") {
+    issues.push(`${at}.Direction: expected "higher" or "lower", got ${JSON.stringify(row["Direction"])}`);
+  }
+  const higher = row["Direction"] !== "lower";
+
+  thresholds.forEach((t: unknown, j: number) => {
+    const tAt = `${at}.Thresholds[${j}]`;
+    if (!isObject(t)) {
+      issues.push(`${tAt}: expected an object`);
+      return;
+    }
+    if (typeof t["Cutoff"] !== "number" || !Number.isFinite(t["Cutoff"])) issues.push(`${tAt}.Cutoff: expected a number`);
+    if (t["Label"] !== undefined && !isNonEmptyString(t["Label"])) issues.push(`${tAt}.Label: expected a non-empty string when present`);
+    for (const key of ["Sensitivity", "Specificity"]) {
+      if (!isProportion(t[key])) issues.push(`${tAt}.${key}: expected a number in [0, 1], got ${JSON.stringify(t[key])}`);
+    }
+    if (j === 0 || !isObject(thresholds[j - 1])) return;
+    const prev = thresholds[j - 1] as Record<string, number>;
+    if (!(Number(t["Cutoff"]) > prev["Cutoff"])) issues.push(`${tAt}.Cutoff: cutoffs must be strictly ascending`);
+    // Raising the cutoff of a "higher is positive" test can only lose sensitivity and gain specificity
+    const seOk = higher ? Number(t["Sensitivity"]) <= prev["Sensitivity"] : Number(t["Sensitivity"]) >= prev["Sensitivity"];
+    const spOk = higher ? Number(t["Specificity"]) >= prev["Specificity"] : Number(t["Specificity"]) <= prev["Specificity"];
+    if (!seOk || !spOk) issues.push(`${tAt}: Se/Sp must change monotonically with the cutoff (Direction "${higher ? "higher" : "lower"}")`);
+  });
+}
+
+// Unit and StudiedRange belong to the measured value, which Thresholds and IntervalLrs share
+function checkMeasurement(row: Record<string, unknown>, at: string, issues: string[]) {
+  const quantitative = row["Thresholds"] !== undefined || row["IntervalLrs"] !== undefined;
+  if (!quantitative) {
+    for (const key of ["Unit", "StudiedRange"]) {
+      if (row[key] !== undefined) issues.push(`${at}.${key}: only allowed together with Thresholds or IntervalLrs`);
+    }
+  } else if (!isNonEmptyString(row["Unit"])) issues.push(`${at}.Unit: required when Thresholds or IntervalLrs are given`);
+  checkInterval(row["StudiedRange"], `${at}.StudiedRange`, issues, false);
+
+  const strata = row["IntervalLrs"];
+  if (strata === undefined) {
+    for (const key of ["IntervalLrsReference", "IntervalLrsReferenceUrl"]) {
+      if (row[key] !== undefined) issues.push(`${at}.${key}: only allowed together with IntervalLrs`);
+    }
+    return;
+  }
+  if (!Array.isArray(strata) || strata.length < 2) {
+    issues.push(`${at}.IntervalLrs: expected an array of at least two strata`);
+    return;
+  }
+  for (const key of ["IntervalLrsReference", "IntervalLrsReferenceUrl"]) {
+    if (row[key] !== undefined && !isNonEmptyString(row[key])) issues.push(`${at}.${key}: expected a non-empty string when present`);
+  }
+  strata.forEach((s: unknown, j: number) => {
+    const sAt = `${at}.IntervalLrs[${j}]`;
+    if (!isObject(s)) {
+      issues.push(`${sAt}: expected an object`);
+      return;
+    }
+    for (const key of ["From", "To"]) {
+      const open = key === "From" ? j === 0 : j === strata.length - 1;
+      if (s[key] === undefined && open) continue;
+      if (typeof s[key] !== "number" || !Number.isFinite(s[key])) issues.push(`${sAt}.${key}: expected a number${open ? " when present" : ""}`);
+    }
+    if (typeof s["From"] === "number" && typeof s["To"] === "number" && !(s["From"] < s["To"])) issues.push(`${sAt}: From must be below To`);
+    if (typeof s["LR"] !== "number" || !(s["LR"] >= 0) || !Number.isFinite(s["LR"])) issues.push(`${sAt}.LR: expected a non-negative number, got ${JSON.stringify(s["LR"])}`);
+    checkInterval(s["LRCI"], `${sAt}.LRCI`, issues, false);
+    const prev = strata[j - 1];
+    if (j > 0 && isObject(prev) && prev["To"] !== s["From"]) issues.push(`${sAt}.From: strata must be contiguous (previous To is ${JSON.stringify(prev["To"])})`);
+  });
+}
+
+const CITATION_TEXT_FIELDS = ["Title", "Journal", "Volume", "Issue", "Pages", "Publisher"] as const;
+
+function checkCitation(v: unknown, at: string, issues: string[]) {
+  if (v === undefined) return;
+  if (!isObject(v)) {
+    issues.push(`${at}.Citation: expected an object`);
+    return;
+  }
+  if (!Array.isArray(v["Authors"]) || v["Authors"].length === 0 || !v["Authors"].every(isNonEmptyString)) issues.push(`${at}.Citation.Authors: expected a non-empty array of names`);
+  if (v["EtAl"] !== undefined && typeof v["EtAl"] !== "boolean") issues.push(`${at}.Citation.EtAl: expected a boolean`);
+  if (!isCount(v["Year"]) || v["Year"] < 1800) issues.push(`${at}.Citation.Year: expected a four-digit year, got ${JSON.stringify(v["Year"])}`);
+  for (const key of CITATION_TEXT_FIELDS) {
+    if (v[key] !== undefined && !isNonEmptyString(v[key])) issues.push(`${at}.Citation.${key}: expected a non-empty string when present`);
+  }
+  if (v["Journal"] === undefined && v["Publisher"] === undefined && v["PMID"] === undefined) issues.push(`${at}.Citation: needs a Journal, a Publisher or a PMID`);
+  if (v["PMID"] !== undefined && !(typeof v["PMID"] === "string" && /^\d+$/.test(v["PMID"]))) issues.push(`${at}.Citation.PMID: expected digits only, got ${JSON.stringify(v["PMID"])}`);
+  if (v["PMCID"] !== undefined && !(typeof v["PMCID"] === "string" && /^PMC\d+$/.test(v["PMCID"]))) issues.push(`${at}.Citation.PMCID: expected "PMC" followed by digits, got ${JSON.stringify(v["PMCID"])}`);
+  if (v["DOI"] !== undefined && !(typeof v["DOI"] === "string" && /^10\.\d{4,}\/\S+$/.test(v["DOI"]))) issues.push(`${at}.Citation.DOI: expected a bare DOI (10.xxxx/…), got ${JSON.stringify(v["DOI"])}`);
+}
+
+function checkStudies(row: Record<string, unknown>, at: string, issues: string[]) {
+  const studies = row["Studies"];
+  if (studies === undefined) return;
+  if (!Array.isArray(studies) || studies.length < 2) {
+    issues.push(`${at}.Studies: expected an array of at least two studies`);
+    return;
+  }
+  const ids = new Set<string>();
+  studies.forEach((s: unknown, j: number) => {
+    const sAt = `${at}.Studies[${j}]`;
+    if (!isObject(s)) {
+      issues.push(`${sAt}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(s["Id"]) || !ID_PATTERN.test(s["Id"])) issues.push(`${sAt}.Id: expected a lowercase kebab-case id, got ${JSON.stringify(s["Id"])}`);
+    else if (ids.has(s["Id"])) issues.push(`${sAt}.Id: duplicate study id "${s["Id"]}"`);
+    else ids.add(s["Id"]);
+    for (const key of ["Label", "Reference"]) {
+      if (!isNonEmptyString(s[key])) issues.push(`${sAt}.${key}: expected a non-empty string`);
+    }
+    for (const key of ["Setting", "ReferenceUrl"]) {
+      if (s[key] !== undefined && !isNonEmptyString(s[key])) issues.push(`${sAt}.${key}: expected a non-empty string when present`);
+    }
+    const cells = ["TP", "FP", "FN", "TN"];
+    const bad = cells.filter(k => !isCount(s[k]));
+    if (bad.length > 0) issues.push(`${sAt}: ${bad.join(", ")} must be non-negative integers (pooling needs all four 2×2 counts)`);
+    else if (Number(s["TP"]) + Number(s["FN"]) === 0 || Number(s["TN"]) + Number(s["FP"]) === 0) issues.push(`${sAt}: needs at least one diseased and one non-diseased participant`);
+    checkCitation(s["Citation"], sAt, issues);
+  });
+}
+
+function checkSubgroups(row: Record<string, unknown>, at: string, issues: string[]) {
+  const subgroups = row["Subgroups"];
+  if (subgroups === undefined) return;
+  if (!Array.isArray(subgroups) || subgroups.length === 0) {
+    issues.push(`${at}.Subgroups: expected a non-empty array`);
+    return;
+  }
+  const ids = new Set<string>();
+  subgroups.forEach((g: unknown, j: number) => {
+    const gAt = `${at}.Subgroups[${j}]`;
+    if (!isObject(g)) {
+      issues.push(`${gAt}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(g["Id"]) || !ID_PATTERN.test(g["Id"])) issues.push(`${gAt}.Id: expected a lowercase kebab-case id, got ${JSON.stringify(g["Id"])}`);
+    else if (ids.has(g["Id"])) issues.push(`${gAt}.Id: duplicate subgroup id "${g["Id"]}"`);
+    else ids.add(g["Id"]);
+    for (const key of ["Label", "Reference"]) {
+      if (!isNonEmptyString(g[key])) issues.push(`${gAt}.${key}: expected a non-empty string`);
+    }
+    for (const key of ["Note", "ReferenceUrl"]) {
+      if (g[key] !== undefined && !isNonEmptyString(g[key])) issues.push(`${gAt}.${key}: expected a non-empty string when present`);
+    }
+    for (const key of ["Sensitivity", "Specificity"]) {
+      if (!isProportion(g[key])) issues.push(`${gAt}.${key}: expected a number in [0, 1], got ${JSON.stringify(g[key])}`);
+    }
+    for (const key of ["LR+", "LR-"]) {
+      const v = g[key];
+      if (v !== undefined && (typeof v !== "number" || !(v >= 0))) issues.push(`${gAt}.${key}: expected a non-negative number when present, got ${JSON.stringify(v)}`);
+    }
+    checkInterval(g["SensitivityCI"], `${gAt}.SensitivityCI`, issues, true);
+    checkInterval(g["SpecificityCI"], `${gAt}.SpecificityCI`, issues, true);
+    checkCitation(g["Citation"], gAt, issues);
+  });
+}
+
+function checkResults(row: Record<string, unknown>, at: string, issues: string[]) {
+  const results = row["Results"];
+  if (results === undefined) {
+    for (const key of ["ResultsReference", "ResultsReferenceUrl"]) {
+      if (row[key] !== undefined) issues.push(`${at}.${key}: only allowed together with Results`);
+    }
+    return;
+  }
+  if (!Array.isArray(results) || results.length < 2) {
+    issues.push(`${at}.Results: expected an array of at least two result categories`);
+    return;
+  }
+  for (const key of ["ResultsReference", "ResultsReferenceUrl"]) {
+    if (row[key] !== undefined && !isNonEmptyString(row[key])) issues.push(`${at}.${key}: expected a non-empty string when present`);
+  }
+  const ids = new Set<string>();
+  let diseased = 0;
+  let nonDiseased = 0;
+  results.forEach((c: unknown, j: number) => {
+    const cAt = `${at}.Results[${j}]`;
+    if (!isObject(c)) {
+      issues.push(`${cAt}: expected an object`);
+      return;
+    }
+    if (!isNonEmptyString(c["Id"]) || !ID_PATTERN.test(c["Id"])) issues.push(`${cAt}.Id: expected a lowercase kebab-case id, got ${JSON.stringify(c["Id"])}`);
+    else if (ids.has(c["Id"])) issues.push(`${cAt}.Id: duplicate result id "${c["Id"]}"`);
+    else ids.add(c["Id"]);
+    if (!isNonEmptyString(c["Label"])) issues.push(`${cAt}.Label: expected a non-empty string`);
+    for (const key of ["Diseased", "NonDiseased"]) {
+      if (!isCount(c[key])) issues.push(`${cAt}.${key}: expected a non-negative integer, got ${JSON.stringify(c[key])}`);
+    }
+    diseased += Number(c["Diseased"]) || 0;
+    nonDiseased += Number(c["NonDiseased"]) || 0;
+  });
+  if (diseased === 0 || nonDiseased === 0) issues.push(`${at}.Results: needs participants both with and without the condition`);
+}
+
+function checkInterval(v: unknown, path: string, issues: string[], proportion: boolean) {
+  if (v === undefined) return;
+  if (!Array.isArray(v) || v.length !== 2 || !v.every(x => typeof x === "number" && x >= 0)) {
+    issues.push(`${path}: expected [lower, upper] with non-negative numbers, got ${JSON.stringify(v)}`);
+    return;
+  }
+  if (v[0] > v[1]) issues.push(`${path}: lower bound ${v[0]} exceeds upper bound ${v[1]}`);
+  if (proportion && v[1] > 1) issues.push(`${path}: proportion bounds must be within [0, 1]`);
+}
+
+export function validateTestsFile(input: unknown): TestsFile {
+  const issues: string[] = [];
+  if (!isObject(input)) throw new DatasetValidationError("tests.json", ["root: expected an object with `version` and `tests`"]);
+  if (!isCount(input.version) || input.version < 1) issues.push(`version: expected a positive integer, got ${JSON.stringify(input.version)}`);
+  if (!Array.isArray(input.tests)) {
+    issues.push("tests: expected an array");
+    throw new DatasetValidationError("tests.json", issues);
+  }
+
+  const ids = new Set<string>();
+  const names = new Set<string>();
+  input.tests.forEach((row: unknown, i: number) => {
+    if (!isObject(row)) {
+      issues.push(`tests[${i}]: expected an object`);
+      return;
+    }
+    const at = `tests[${i}]${isNonEmptyString(row["Test"]) ? ` (${row["Test"]})` : ""}`;
+
+    if (!isNonEmptyString(row["Id"]) || !ID_PATTERN.test(row["Id"])) issues.push(`${at}.Id: expected a lowercase kebab-case id, got ${JSON.stringify(row["Id"])}`);
+    else if (ids.has(row["Id"])) issues.push(`${at}.Id: duplicate id "${row["Id"]}"`);
+    else ids.add(row["Id"]);
+
+    for (const key of ["Test", "Condition", "Reference"]) {
+      if (!isNonEmptyString(row[key])) issues.push(`${at}.${key}: expected a non-empty string`);
+    }
+    const name = `${row["Test"]} — ${row["Condition"]}`;
+    if (names.has(name)) issues.push(`${at}: duplicate Test/Condition pair "${name}"`);
+    names.add(name);
+
+    for (const key of ["Sensitivity", "Specificity"]) {
+      if (!isProportion(row[key])) issues.push(`${at}.${key}: expected a number in [0, 1], got ${JSON.stringify(row[key])}`);
+    }
+    for (const key of ["LR+", "LR-"]) {
+      const v = row[key];
+      if (typeof v !== "number" || !(v >= 0)) issues.push(`${at}.${key}: expected a non-negative number, got ${JSON.stringify(v)}`);
+    }
+    if (row["ReferenceUrl"] !== undefined && !isNonEmptyString(row["ReferenceUrl"])) issues.push(`${at}.ReferenceUrl: expected a string when present`);
+    checkCitation(row["Citation"], at, issues);
+
+    const counts = ["TP", "FP", "FN", "TN"].filter(k => row[k] !== undefined);
+    if (counts.length > 0 && counts.length < 4) issues.push(`${at}: 2×2 counts must give all of TP, FP, FN, TN (found ${counts.join(", ")})`);
+    for (const k of counts) {
+      if (!isCount(row[k])) issues.push(`${at}.${k}: expected a non-negative integer, got ${JSON.stringify(row[k])}`);
+    }
+
+    checkInterval(row["SensitivityCI"], `${at}.SensitivityCI`, issues, true);
+    checkInterval(row["SpecificityCI"], `${at}.SpecificityCI`, issues, true);
+    checkInterval(row["LR+CI"], `${at}.LR+CI`, issues, false);
+    checkInterval(row["LR-CI"], `${at}.LR-CI`, issues, false);
+    checkThresholds(row, at, issues);
+    checkMeasurement(row, at, issues);
+    checkStudies(row, at, issues);
+    checkSubgroups(row, at, issues);
+    checkResults(row, at, issues);
+  });
+
+  if (issues.length > 0) throw new DatasetValidationError("tests.json", issues);
+  return input as unknown as TestsFile;
+}
+
+export function validateNotesFile(input: unknown, tests: TestsFile): StudyNotesFile {
+  const issues: string[] = [];
+  if (!isObject(input) || !isObject(input.notes)) throw new DatasetValidationError("study-notes.json", ["root: expected an object with `datasetVersion` and `notes`"]);
+  if (input.datasetVersion !== tests.version) {
+    issues.push(
+      `datasetVersion: notes were checked against dataset version ${JSON.stringify(input.datasetVersion)}, but tests.json is version ${tests.version}. ` +
+        "Re-check the note ids against tests.json, then update datasetVersion."
+    );
+  }
+
+  const ids = new Set(tests.tests.map(t => t["Id"]));
+  for (const [id, notes] of Object.entries(input.notes)) {
+    const at = `notes["${id}"]`;
+    if (!ids.has(id)) issues.push(`${at}: no test in tests.json has this id (renamed or removed?)`);
+    if (!isObject(notes)) {
+      issues.push(`${at}: expected an object`);
+      continue;
+    }
+    for (const key of NOTE_TEXT_FIELDS) {
+      if (notes[key] !== undefined && typeof notes[key] !== "string") issues.push(`${at}.${key}: expected a string`);
+    }
+    if (notes.caveats !== undefined && !(Array.isArray(notes.caveats) && notes.caveats.every(isNonEmptyString))) {
+      issues.push(`${at}.caveats: expected an array of non-empty strings`);
+    }
+    const unknownKeys = Object.keys(notes).filter(k => k !== "caveats" && !(NOTE_TEXT_FIELDS as readonly string[]).includes(k));
+    if (unknownKeys.length > 0) issues.push(`${at}: unknown field(s) ${unknownKeys.join(", ")}`);
+  }
+
+  if (issues.length > 0) throw new DatasetValidationError("study-notes.json", issues);
+  return input as unknown as StudyNotesFile;
+}
+
+const isScore = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+export function validatePredictionRulesFile(input: unknown, tests: TestsFile): PredictionRulesFile {
+  const issues: string[] = [];
+  if (!isObject(input) || !Array.isArray(input.rules)) throw new DatasetValidationError("prediction-rules.json", ["root: expected an object with `version` and `rules`"]);
+  if (!isCount(input.version) || input.version < 1) issues.push(`version: expected a positive integer, got ${JSON.stringify(input.version)}`);
+
+  const conditions = new Set(tests.tests.map(t => t["Condition"]));
+  const ruleIds = new Set<string>();
+  input.rules.forEach((rule: unknown, i: number) => {
+    if (!isObject(rule)) {
+      issues.push(`rules[${i}]: expected an object`);
+      return;
+    }
+    const at = `rules[${i}]${isNonEmptyString(rule.name) ? ` (${rule.name})` : ""}`;
+    if (!isNonEmptyString(rule.id) || !ID_PATTERN.test(rule.id)) issues.push(`${at}.id: expected a lowercase kebab-case id, got ${JSON.stringify(rule.id)}`);
+    else if (ruleIds.has(rule.id)) issues.push(`${at}.id: duplicate id "${rule.id}"`);
+    else ruleIds.add(rule.id);
+    for (const key of ["name", "condition", "outcome", "reference"]) {
+      if (!isNonEmptyString(rule[key])) issues.push(`${at}.${key}: expected a non-empty string`);
+    }
+    if (isNonEmptyString(rule.condition) && !conditions.has(rule.condition)) issues.push(`${at}.condition: "${rule.condition}" is not a Condition in tests.json`);
+
+    if (!Array.isArray(rule.items) || rule.items.length === 0) issues.push(`${at}.items: expected a non-empty array`);
+    else {
+      const itemIds = new Set<string>();
+      rule.items.forEach((item: unknown, j: number) => {
+        const iAt = `${at}.items[${j}]`;
+        if (!isObject(item)) return void issues.push(`${iAt}: expected an object`);
+        if (!isNonEmptyString(item.id) || itemIds.has(item.id)) issues.push(`${iAt}.id: expected a unique non-empty id`);
+        else itemIds.add(item.id);
+        if (!isNonEmptyString(item.label)) issues.push(`${iAt}.label: expected a non-empty string`);
+        const hasPoints = item.points !== undefined;
+        const hasOptions = item.options !== undefined;
+        if (hasPoints === hasOptions) issues.push(`${iAt}: give either points (yes/no item) or options (choice item)`);
+        if (hasPoints && !isScore(item.points)) issues.push(`${iAt}.points: expected a number`);
+        if (hasOptions && !(Array.isArray(item.options) && item.options.length >= 2 && item.options.every(o => isObject(o) && isNonEmptyString(o.label) && isScore(o.points)))) {
+          issues.push(`${iAt}.options: expected at least two { label, points } entries`);
+        }
+      });
+    }
+
+    if (!Array.isArray(rule.strata) || rule.strata.length === 0) issues.push(`${at}.strata: expected a non-empty array`);
+    else {
+      let prevMax = -Infinity;
+      rule.strata.forEach((st: unknown, j: number) => {
+        const sAt = `${at}.strata[${j}]`;
+        if (!isObject(st)) return void issues.push(`${sAt}: expected an object`);
+        if (!isNonEmptyString(st.label)) issues.push(`${sAt}.label: expected a non-empty string`);
+        if (st.probability !== null && !isProportion(st.probability)) issues.push(`${sAt}.probability: expected a number in [0, 1] or null`);
+        const min = st.min === undefined ? -Infinity : st.min;
+        const max = st.max === undefined ? Infinity : st.max;
+        if (!isScore(min) && min !== -Infinity) issues.push(`${sAt}.min: expected a number`);
+        if (!isScore(max) && max !== Infinity) issues.push(`${sAt}.max: expected a number`);
+        if (typeof min === "number" && typeof max === "number") {
+          if (min > max) issues.push(`${sAt}: min ${min} exceeds max ${max}`);
+          if (j > 0 && min <= prevMax) issues.push(`${sAt}: overlaps the previous stratum (strata must be ascending)`);
+          prevMax = max;
+        }
+      });
+    }
+  });
+
+  if (issues.length > 0) throw new DatasetValidationError("prediction-rules.json", issues);
+  return input as unknown as PredictionRulesFile;
+}
+
+const PREVALENCE_SETTINGS = ["screening", "primary-care", "emergency", "inpatient", "specialist"];
+const PRESET_KEYS = new Set(["setting", "label", "prevalence", "note", "reference", "referenceUrl"]);
+
+export function validatePresetsFile(input: unknown, tests: TestsFile): PrevalencePresetsFile {
+  const issues: string[] = [];
+  if (!isObject(input) || !isObject(input.presets)) throw new DatasetValidationError("prevalence-presets.json", ["root: expected an object with `version` and `presets`"]);
+  if (!isCount(input.version) || input.version < 1) issues.push(`version: expected a positive integer, got ${JSON.stringify(input.version)}`);
+
+  const conditions = new Set(tests.tests.map(t => t["Condition"]));
+  for (const c of conditions) {
+    if (!(c in input.presets)) issues.push(`presets: no entry for condition "${c}"`);
+  }
+  for (const [condition, list] of Object.entries(input.presets)) {
+    const at = `presets["${condition}"]`;
+    if (!conditions.has(condition)) issues.push(`${at}: "${condition}" is not a Condition in tests.json`);
+    if (!Array.isArray(list) || list.length === 0) {
+      issues.push(`${at}: expected a non-empty array`);
+      continue;
+    }
+    list.forEach((p: unknown, i: number) => {
+      const pAt = `${at}[${i}]`;
+      if (!isObject(p)) return void issues.push(`${pAt}: expected an object`);
+      if (!PREVALENCE_SETTINGS.includes(p.setting as string)) issues.push(`${pAt}.setting: expected one of ${PREVALENCE_SETTINGS.join(", ")}, got ${JSON.stringify(p.setting)}`);
+      if (!isNonEmptyString(p.label)) issues.push(`${pAt}.label: expected a non-empty string`);
+      if (!isProportion(p.prevalence) || p.prevalence === 0) issues.push(`${pAt}.prevalence: expected a number in (0, 1], got ${JSON.stringify(p.prevalence)}`);
+      if (!isNonEmptyString(p.reference)) issues.push(`${pAt}.reference: every preset needs a citation`);
+      if (p.referenceUrl !== undefined && !isNonEmptyString(p.referenceUrl)) issues.push(`${pAt}.referenceUrl: expected a non-empty string`);
+      for (const key of Object.keys(p)) {
+        if (!PRESET_KEYS.has(key)) issues.push(`${pAt}: unknown field "${key}"`);
+      }
+    });
+  }
+
+  if (issues.length > 0) throw new DatasetValidationError("prevalence-presets.json", issues);
+  return input as unknown as PrevalencePresetsFile;
+}
+
+// --- Mapping ------------------------------------------------------------------------
+const toInterval = (v?: [number, number]): Interval | undefined => (v ? { lower: v[0], upper: v[1] } : undefined);
+
+function countsOf(r: RawRow): TwoByTwo | null {
+  const { TP: tp, FP: fp, FN: fn, TN: tn } = r;
+  return tp != null && fp != null && fn != null && tn != null ? { tp, fp, fn, tn } : null;
+}
+
+function citationOf(c: RawCitation | undefined, url: string | undefined): Citation | null {
+  if (!c) return null;
+  return {
+    authors: c["Authors"],
+    etAl: c["EtAl"] ?? false,
+    year: c["Year"],
+    title: c["Title"],
+    journal: c["Journal"],
+    volume: c["Volume"],
+    issue: c["Issue"],
+    pages: c["Pages"],
+    publisher: c["Publisher"],
+    pmid: c["PMID"],
+    pmcid: c["PMCID"],
+    doi: c["DOI"],
+    url: url ?? null,
+  };
+}
+
+function studyOf(s: RawStudy): Study {
+  return {
+    id: s["Id"],
+    label: s["Label"],
+    counts: { tp: s["TP"], fp: s["FP"], fn: s["FN"], tn: s["TN"] },
+    setting: s["Setting"],
+    reference: s["Reference"],
+    referenceUrl: s["ReferenceUrl"] ?? null,
+    citation: citationOf(s["Citation"], s["ReferenceUrl"]),
+  };
+}
+
+function subgroupOf(g: RawSubgroup): Subgroup {
+  return {
+    id: g["Id"],
+    label: g["Label"],
+    sensitivity: g["Sensitivity"],
+    specificity: g["Specificity"],
+    lrPlus: g["LR+"] ?? lrPositive(g["Sensitivity"], g["Specificity"]),
+    lrMinus: g["LR-"] ?? lrNegative(g["Sensitivity"], g["Specificity"]),
+    ci: { sensitivity: toInterval(g["SensitivityCI"]), specificity: toInterval(g["SpecificityCI"]) },
+    note: g["Note"],
+    reference: g["Reference"],
+    referenceUrl: g["ReferenceUrl"] ?? null,
+    citation: citationOf(g["Citation"], g["ReferenceUrl"]),
+  };
+}
+
+function intervalLrsOf(r: RawRow): IntervalLrSet | null {
+  if (!r["IntervalLrs"]) return null;
+  return {
+    unit: r["Unit"] ?? "",
+    strata: r["IntervalLrs"].map(s => ({ from: s["From"] ?? null, to: s["To"] ?? null, lr: s["LR"], ci: toInterval(s["LRCI"]) ?? null })),
+    reference: r["IntervalLrsReference"] ?? null,
+    referenceUrl: r["IntervalLrsReferenceUrl"] ?? null,
+  };
+}
+
+function resultsOf(r: RawRow): ResultScale | null {
+  if (!r["Results"]) return null;
+  return {
+    categories: r["Results"].map(c => ({ id: c["Id"], label: c["Label"], diseased: c["Diseased"], nonDiseased: c["NonDiseased"] })),
+    reference: r["ResultsReference"] ?? null,
+    referenceUrl: r["ResultsReferenceUrl"] ?? null,
+  };
+}
+
+function thresholdsOf(r: RawRow): ThresholdSet | null {
+  if (!r["Thresholds"]) return null;
+  return {
+    unit: r["Unit"] ?? "",
+    direction: r["Direction"] ?? "higher",
+    points: r["Thresholds"].map(t => ({
+      cutoff: t["Cutoff"],
+      label: t["Label"] ?? `${r["Direction"] === "lower" ? "≤" : "≥"} ${t["Cutoff"]} ${r["Unit"] ?? ""}`.trim(),
+      sensitivity: t["Sensitivity"],
+      specificity: t["Specificity"],
+    })),
+    reference: r["ThresholdsReference"] ?? null,
+    referenceUrl: r["ThresholdsReferenceUrl"] ?? null,
+  };
+}
+
+export function toTestData(r: RawRow): TestData {
+  return {
+    id: r["Id"],
+    test: r["Test"],
+    condition: r["Condition"],
+    sensitivity: r["Sensitivity"],
+    specificity: r["Specificity"],
+    lrPlus: r["LR+"],
+    lrMinus: r["LR-"],
+    reference: r["Reference"],
+    referenceUrl: r["ReferenceUrl"] ?? null,
+    citation: citationOf(r["Citation"], r["ReferenceUrl"]),
+    counts: countsOf(r),
+    ci: {
+      sensitivity: toInterval(r["SensitivityCI"]),
+      specificity: toInterval(r["SpecificityCI"]),
+      lrPlus: toInterval(r["LR+CI"]),
+      lrMinus: toInterval(r["LR-CI"]),
+    },
+    thresholds: thresholdsOf(r),
+    intervalLrs: intervalLrsOf(r),
+    studiedRange: toInterval(r["StudiedRange"]) ?? null,
+    studies: r["Studies"]?.map(studyOf) ?? null,
+    subgroups: r["Subgroups"]?.map(subgroupOf) ?? null,
+    results: resultsOf(r),
+  };
+}
+
+// --- Loaded dataset -----------------------------------------------------------------
+const testsFile = validateTestsFile(testsJson);
+const notesFile = validateNotesFile(notesJson, testsFile);
+
+export const DATASET_VERSION = testsFile.version;
+
+export const RAW: readonly RawRow[] = testsFile.tests;
+
+export const DATA: TestData[] = RAW.map(toTestData);
+
+// unique conditions for filter
+export const CONDITIONS = Array.from(new Set(DATA.map(d => d.condition))).sort();
+
+export const DETAILS: Readonly<Record<string, StudyNotes>> = notesFile.notes;
+
+const DATA_BY_ID = new Map(DATA.map(d => [d.id, d]));
+
+export function getTestById(id: string): TestData | undefined {
+  return DATA_BY_ID.get(id);
+}
+
+// The explorer's search box and condition filter: `query` matches test or condition names
+// (case-insensitive substring), `condition` must match exactly unless it is "All"
+export function filterTests(rows: readonly TestData[], query: string, condition = "All"): TestData[] {
+  const q = query.toLowerCase();
+  return rows.filter(d => (condition === "All" || d.condition === condition) && (d.test.toLowerCase().includes(q) || d.condition.toLowerCase().includes(q)));
+}
+
+export const PREDICTION_RULES: readonly PredictionRule[] = validatePredictionRulesFile(rulesJson, testsFile).rules;
+
+// Cited prevalence by setting, keyed by condition
+export const PREVALENCE_PRESETS: Readonly<Record<string, readonly PrevalencePreset[]>> = validatePresetsFile(presetsJson, testsFile).presets;
+
+export function stratumForScore(rule: PredictionRule, score: number): PredictionRuleStratum | null {
+  return rule.strata.find(s => (s.min === undefined || score >= s.min) && (s.max === undefined || score <= s.max)) ?? null;
+}
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { importRecords, importText } from "./local-import";
+
+const CSV = [
+  "Test,Condition,Study,TP,FP,FN,TN,Sensitivity,Specificity",
+  "Rapid assay,Influenza,Site A,40,10,10,90,,",
+  "Rapid assay,Influenza,Site B,30,20,20,80,,",
+  "Ward score,Sepsis,,,,,,0.8,0.7",
+].join("\n");
+
+describe("importRecords", () => {
+  it("pools study rows into one test and maps every record to its test", () => {
+    const r = importText(CSV, "local.csv");
+    assert.deepEqual(r.issues, []);
+    assert.deepEqual(r.tests.map(t => t.id), ["local-rapid-assay-influenza", "local-ward-score-sepsis"]);
+    assert.equal(r.tests[0].studies?.length, 2);
+    assert.deepEqual(r.recordIds, ["local-rapid-assay-influenza", "local-rapid-assay-influenza", "local-ward-score-sepsis"]);
+  });
+
+  it("removes a pooled test's records, and only those, by id", () => {
+    const r = importText(CSV, "local.csv");
+    const withoutPooled = importRecords(r.records.filter((_, i) => r.recordIds[i] !== "local-rapid-assay-influenza"));
+    assert.deepEqual(withoutPooled.tests.map(t => t.id), ["local-ward-score-sepsis"]);
+    const withoutPlain = importRecords(r.records.filter((_, i) => r.recordIds[i] !== "local-ward-score-sepsis"));
+    assert.deepEqual(withoutPlain.tests.map(t => t.id), ["local-rapid-assay-influenza"]);
+    assert.equal(withoutPlain.tests[0].studies?.length, 2);
+  });
+
+  it("keeps skipped rows out of the records", () => {
+    const r = importText("Test,Condition,Sensitivity,Specificity\nGood,Flu,0.9,0.8\nBad,,0.9,0.8\n", "local.csv");
+    assert.deepEqual(r.recordIds, ["local-good-flu"]);
+    assert.equal(r.records.length, 1);
+    assert.match(r.issues[0], /^Row 2 \(Bad\): Condition is required/);
+  });
+});
@@ -0,0 +1,284 @@
+import { lrNegative, lrPositive } from "../lib/diagnostic-math";
+import { CSV_META_MARKER } from "../lib/export";
+import { pooledTest } from "../lib/meta-analysis";
+import type { IntervalLrSet, ResultCategory, ResultScale, Study, TestData, TwoByTwo, ValueStratum } from "./schema";
+
+/**
+ * Local test import (CSV or JSON)
+ * - Accepts the tests.json columns: Test, Condition, Sensitivity, Specificity, LR+, LR-, Reference, ReferenceUrl (and an optional Id)
+ * - CSV needs a header row; JSON may be an array of rows or a `{ "tests": [...] }` file like tests.json
+ * - Sensitivity/Specificity are proportions (0.85) or percentages ("85%"); missing LR± are derived from them
+ * - Optional TP/FP/FN/TN counts give CIs (and Se/Sp when those are left empty)
+ * - Rows with a Study label and counts that share Test and Condition become one test with several studies,
+ *   whose headline Se/Sp is the random-effects pooled estimate
+ * - JSON rows may carry Results: ordered result categories as [{ Label, Diseased, NonDiseased }, …]
+ * - JSON rows may carry IntervalLrs for measured values as [{ From, To, LR }, …] with a Unit and an optional StudiedRange [lowest, highest]
+ * - Each row is checked on its own: invalid rows are reported and skipped, valid ones are kept
+ *
+ * Imported rows get ids prefixed with "local-", so they never collide with the curated dataset.
+ * The explorer keeps the raw records in localStorage and re-runs `importRecords` on load.
+ */
+
+export type ImportRecord = Record<string, unknown>;
+
+export interface ImportResult {
+  records: ImportRecord[]; // the valid input rows, as stored
+  recordIds: string[]; // the id of the test each record went into (study rows share one), parallel to `records`
+  tests: TestData[];
+  issues: string[];
+}
+
+export const LOCAL_ID_PREFIX = "local-";
+
+const COLUMNS = ["Id", "Test", "Condition", "Sensitivity", "Specificity", "LR+", "LR-", "Reference", "ReferenceUrl", "Study", "TP", "FP", "FN", "TN"];
+
+// Header spellings people actually type: "LR−" (minus sign), "lr+", "Reference URL"
+function canonicalColumn(name: string) {
+  const key = name.trim().replace(/−/g, "-").replace(/\s+/g, "").toLowerCase();
+  return COLUMNS.find(c => c.toLowerCase() === key) ?? name.trim();
+}
+
+const slug = (s: string) => s.toLowerCase().normalize("NFKD").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+// RFC 4180-style CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === "") quoted = true;
+    else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== "")) rows.push(row);
+  return rows;
+}
+
+// A byte-order mark, "#" comment lines and everything from an explorer export's metadata block on are ignored
+function recordsFromCsv(text: string): ImportRecord[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, "")).filter(row => !row[0].trimStart().startsWith("#"));
+  const metaAt = rows.findIndex(row => row[0].trim() === CSV_META_MARKER);
+  const [header, ...body] = metaAt < 0 ? rows : rows.slice(0, metaAt);
+  if (!header) return [];
+  const columns = header.map(canonicalColumn);
+  return body.map(cells => Object.fromEntries(columns.map((c, i) => [c, (cells[i] ?? "").trim()])));
+}
+
+function recordsFromJson(text: string): ImportRecord[] {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : (parsed as { tests?: unknown })?.tests;
+  if (!Array.isArray(list)) throw new Error("expected an array of rows or an object with a `tests` array");
+  return list.map(r => (typeof r === "object" && r !== null ? Object.fromEntries(Object.entries(r).map(([k, v]) => [canonicalColumn(k), v])) : { Test: r }));
+}
+
+// Numbers may arrive as numbers (JSON) or strings (CSV); "" and null mean "not given"
+function numberOf(v: unknown, percentAllowed: boolean): number | null | undefined {
+  if (v === undefined || v === null || (typeof v === "string" && v.trim() === "")) return undefined;
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v !== "string") return null;
+  const s = v.trim();
+  if (percentAllowed && s.endsWith("%")) {
+    const n = Number(s.slice(0, -1));
+    return Number.isFinite(n) ? n / 100 : null;
+  }
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+const textOf = (v: unknown) => (typeof v === "string" ? v.trim() : typeof v === "number" ? String(v) : "");
+
+function countsOf(r: ImportRecord, issues: string[]): TwoByTwo | null {
+  const cells = (["TP", "FP", "FN", "TN"] as const).map(k => [k, numberOf(r[k], false)] as const);
+  if (cells.every(([, v]) => v === undefined)) return null;
+  const bad = cells.filter(([, v]) => v === undefined || v === null || !Number.isInteger(v) || v < 0).map(([k]) => k);
+  if (bad.length > 0) {
+    issues.push(`${bad.join(", ")}: 2×2 counts must all be given as non-negative integers`);
+    return null;
+  }
+  const [tp, fp, fn, tn] = cells.map(([, v]) => v as number);
+  if (tp + fn === 0 || tn + fp === 0) {
+    issues.push("2×2 counts need at least one diseased and one non-diseased participant");
+    return null;
+  }
+  return { tp, fp, fn, tn };
+}
+
+function resultsOf(v: unknown, issues: string[]): ResultScale | null {
+  if (v === undefined || v === null || v === "") return null;
+  if (!Array.isArray(v) || v.length < 2) {
+    issues.push("Results: expected at least two categories as [{ Label, Diseased, NonDiseased }, …] (JSON only)");
+    return null;
+  }
+  const categories: ResultCategory[] = [];
+  v.forEach((c: unknown, j) => {
+    const r = typeof c === "object" && c !== null ? (c as ImportRecord) : {};
+    const label = textOf(r["Label"]);
+    const diseased = numberOf(r["Diseased"], false);
+    const nonDiseased = numberOf(r["NonDiseased"], false);
+    const isCount = (n: number | null | undefined): n is number => typeof n === "number" && Number.isInteger(n) && n >= 0;
+    if (!label || !isCount(diseased) || !isCount(nonDiseased)) issues.push(`Results[${j}]: expected { Label, Diseased, NonDiseased } with non-negative integer counts`);
+    else categories.push({ id: uniqueSlug(label, categories, "result"), label, diseased, nonDiseased });
+  });
+  if (categories.length === v.length && (categories.every(c => c.diseased === 0) || categories.every(c => c.nonDiseased === 0))) {
+    issues.push("Results: need participants both with and without the condition");
+  }
+  return { categories, reference: null, referenceUrl: null };
+}
+
+function intervalLrsOf(r: ImportRecord, issues: string[]): { intervalLrs: IntervalLrSet; studiedRange: TestData["studiedRange"] } | null {
+  const v = r["IntervalLrs"];
+  if (v === undefined || v === null || v === "") return null;
+  const unit = textOf(r["Unit"]);
+  if (!unit) issues.push("Unit: required with IntervalLrs");
+  if (!Array.isArray(v) || v.length < 2) {
+    issues.push("IntervalLrs: expected at least two strata as [{ From, To, LR }, …] (JSON only)");
+    return null;
+  }
+  const strata: ValueStratum[] = [];
+  v.forEach((s: unknown, j) => {
+    const o = typeof s === "object" && s !== null ? (s as ImportRecord) : {};
+    const from = numberOf(o["From"], false) ?? null;
+    const to = numberOf(o["To"], false) ?? null;
+    const lr = numberOf(o["LR"], false);
+    const openOk = (from !== null || j === 0) && (to !== null || j === v.length - 1);
+    if (!openOk || typeof lr !== "number" || lr < 0 || (from !== null && to !== null && !(from < to))) {
+      issues.push(`IntervalLrs[${j}]: expected { From, To, LR } with From below To and a non-negative LR (only the outer bounds may be left out)`);
+    } else if (strata.length > 0 && strata[strata.length - 1].to !== from) issues.push(`IntervalLrs[${j}]: From must equal the previous stratum's To`);
+    else strata.push({ from, to, lr, ci: null });
+  });
+  const range = r["StudiedRange"];
+  let studiedRange: TestData["studiedRange"] = null;
+  if (range !== undefined && range !== null && range !== "") {
+    if (Array.isArray(range) && range.length === 2 && range.every(x => typeof x === "number") && range[0] <= range[1]) studiedRange = { lower: range[0], upper: range[1] };
+    else issues.push(`StudiedRange: expected [lowest, highest], got ${JSON.stringify(range)}`);
+  }
+  return { intervalLrs: { unit, strata, reference: null, referenceUrl: null }, studiedRange };
+}
+
+export function importRecords(records: ImportRecord[]): ImportResult {
+  const result: ImportResult = { records: [], recordIds: [], tests: [], issues: [] };
+  const byId = new Map<string, TestData>();
+
+  records.forEach((r, i) => {
+    const test = textOf(r["Test"]);
+    const at = `Row ${i + 1}${test ? ` (${test})` : ""}`;
+    const issues: string[] = [];
+    const condition = textOf(r["Condition"]);
+    const reference = textOf(r["Reference"]);
+    const referenceUrl = textOf(r["ReferenceUrl"]);
+    const study = textOf(r["Study"]);
+    if (!test) issues.push("Test is required");
+    if (!condition) issues.push("Condition is required");
+
+    const counts = countsOf(r, issues);
+    const results = resultsOf(r["Results"], issues);
+    const measured = intervalLrsOf(r, issues);
+    if (study && !counts && issues.length === 0) issues.push("Study rows need TP, FP, FN and TN so they can be pooled");
+    let se = numberOf(r["Sensitivity"], true);
+    let sp = numberOf(r["Specificity"], true);
+    if (counts) {
+      se ??= counts.tp / (counts.tp + counts.fn);
+      sp ??= counts.tn / (counts.tn + counts.fp);
+    }
+    if (se === undefined || se === null || se < 0 || se > 1) issues.push(`Sensitivity: expected a proportion (0.85) or percentage (85%), got ${JSON.stringify(r["Sensitivity"] ?? "")}`);
+    if (sp === undefined || sp === null || sp < 0 || sp > 1) issues.push(`Specificity: expected a proportion (0.85) or percentage (85%), got ${JSON.stringify(r["Specificity"] ?? "")}`);
+
+    const lrPlus = numberOf(r["LR+"], false);
+    const lrMinus = numberOf(r["LR-"], false);
+    if (lrPlus === null || (lrPlus !== undefined && lrPlus < 0)) issues.push(`LR+: expected a non-negative number or nothing, got ${JSON.stringify(r["LR+"])}`);
+    if (lrMinus === null || (lrMinus !== undefined && lrMinus < 0)) issues.push(`LR-: expected a non-negative number or nothing, got ${JSON.stringify(r["LR-"])}`);
+    if (referenceUrl && !/^https?:\/\//.test(referenceUrl)) issues.push(`ReferenceUrl: expected an http(s) link, got "${referenceUrl}"`);
+
+    const id = LOCAL_ID_PREFIX + (slug(textOf(r["Id"])) || slug(`${test} ${condition}`));
+    const existing = byId.get(id);
+    if (issues.length === 0 && existing && !(study && existing.studies)) issues.push(`duplicates an earlier row (id "${id}"); give it a different Test, Condition, Id or a Study label`);
+    if (issues.length > 0) {
+      result.issues.push(...issues.map(m => `${at}: ${m}`));
+      return;
+    }
+
+    result.records.push(r);
+    result.recordIds.push(id);
+    if (study) {
+      const entry: Study = { id: "", label: study, counts: counts!, reference: reference || "Local data", referenceUrl: referenceUrl || null };
+      if (existing) {
+        entry.id = uniqueSlug(study, existing.studies!, "study");
+        existing.studies!.push(entry);
+        return;
+      }
+      entry.id = uniqueSlug(study, [], "study");
+      const t: TestData = { id, test, condition, sensitivity: se!, specificity: sp!, lrPlus: 0, lrMinus: 0, reference: "Pooled local studies", referenceUrl: null, studies: [entry], local: true };
+      byId.set(id, t);
+      result.tests.push(t);
+      return;
+    }
+
+    const t: TestData = {
+      id,
+      test,
+      condition,
+      sensitivity: se!,
+      specificity: sp!,
+      lrPlus: lrPlus ?? lrPositive(se!, sp!),
+      lrMinus: lrMinus ?? lrNegative(se!, sp!),
+      reference: reference || "Local data",
+      referenceUrl: referenceUrl || null,
+      counts,
+      results,
+      intervalLrs: measured?.intervalLrs ?? null,
+      studiedRange: measured?.studiedRange ?? null,
+      local: true,
+    };
+    byId.set(id, t);
+    result.tests.push(t);
+  });
+
+  // Several studies are pooled; a lone study is just a test with counts
+  result.tests = result.tests.map(t => {
+    if (!t.studies) return t;
+    if (t.studies.length > 1) return pooledTest(t, t.studies);
+    const [s] = t.studies;
+    const { tp, fp, fn, tn } = s.counts;
+    const se = tp / (tp + fn), sp = tn / (tn + fp);
+    return { ...t, sensitivity: se, specificity: sp, lrPlus: lrPositive(se, sp), lrMinus: lrNegative(se, sp), reference: s.reference, referenceUrl: s.referenceUrl, counts: s.counts, studies: null };
+  });
+  return result;
+}
+
+// Slug of a label that is not yet taken by any of `items` ("site-b", then "site-b-2", …)
+function uniqueSlug(label: string, items: readonly { id: string }[], fallback: string) {
+  const base = slug(label) || fallback;
+  let id = base;
+  for (let n = 2; items.some(s => s.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+// Sniffs the format from the file name, falling back to the first character
+export function importText(text: string, fileName = ""): ImportResult {
+  const json = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(text));
+  let records: ImportRecord[];
+  try {
+    records = json ? recordsFromJson(text) : recordsFromCsv(text);
+  } catch (e) {
+    return { records: [], recordIds: [], tests: [], issues: [`Could not read ${json ? "JSON" : "CSV"}: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  if (records.length === 0) return { records: [], recordIds: [], tests: [], issues: ["No rows found"] };
+  return importRecords(records);
+}
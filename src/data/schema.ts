@@ -0,0 +1,326 @@
+// --- Dataset schema ------------------------------------------------------------------
+// Shapes of the JSON files in src/data and of the rows the app works with.
+// Bump `version` in tests.json whenever a test id is added, renamed or removed, and
+// update `datasetVersion` in study-notes.json once its ids have been re-checked.
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface TwoByTwo {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+}
+
+// One cutoff of a multi-threshold test, as stored in tests.json
+export interface RawThreshold {
+  "Cutoff": number;
+  "Label"?: string;
+  "Sensitivity": number;
+  "Specificity": number;
+}
+
+// One stratum of a quantitative test's reported interval LRs: From ≤ value < To. Only the first
+// stratum may leave out From and only the last may leave out To (open-ended).
+export interface RawIntervalLr {
+  "From"?: number;
+  "To"?: number;
+  "LR": number;
+  "LRCI"?: [number, number];
+}
+
+// One row of tests.json. Keys aligned with the original source file:
+// Test, Condition, Sensitivity, Specificity, LR+, LR-, Reference, ReferenceUrl
+// Optional: TP/FP/FN/TN (2×2 counts) and SensitivityCI/SpecificityCI/LR+CI/LR-CI (published 95% CIs as [lower, upper])
+// Optional: Thresholds (operating points at several cutoffs, ascending) with Unit, Direction and their own reference
+// Optional: IntervalLrs (reported LRs for ranges of a measured value, ascending) with Unit and their own reference,
+// and StudiedRange (the values the source covered, as [lowest, highest]) for warning about extrapolated results
+// Optional: Citation (structured form of Reference, used for Vancouver/APA formatting and RIS/BibTeX export)
+// Optional: Studies (study-level 2×2 counts, pooled with a random-effects model in the detail view)
+// Optional: Results (ordered result categories such as V/Q scan probability or PI-RADS, each with its own LR) and their own reference
+// Optional: Subgroups (named spectrum variants, e.g. proximal vs distal DVT, with their own Se/Sp and citation)
+export interface RawRow {
+  "Id": string; // stable join key for study notes; never derived from the display name
+  "Test": string;
+  "Condition": string;
+  "Sensitivity": number;
+  "Specificity": number;
+  "LR+": number;
+  "LR-": number;
+  "Reference": string;
+  "ReferenceUrl"?: string;
+  "Citation"?: RawCitation;
+  "Studies"?: RawStudy[];
+  "Subgroups"?: RawSubgroup[];
+  "Results"?: RawResultCategory[];
+  "ResultsReference"?: string;
+  "ResultsReferenceUrl"?: string;
+  "TP"?: number;
+  "FP"?: number;
+  "FN"?: number;
+  "TN"?: number;
+  "SensitivityCI"?: [number, number];
+  "SpecificityCI"?: [number, number];
+  "LR+CI"?: [number, number];
+  "LR-CI"?: [number, number];
+  "Unit"?: string;
+  "Direction"?: ThresholdDirection;
+  "Thresholds"?: RawThreshold[];
+  "ThresholdsReference"?: string;
+  "ThresholdsReferenceUrl"?: string;
+  "IntervalLrs"?: RawIntervalLr[];
+  "IntervalLrsReference"?: string;
+  "IntervalLrsReferenceUrl"?: string;
+  "StudiedRange"?: [number, number];
+}
+
+// Authors are written "Surname Initials" (Vancouver order); an entry without trailing initials is a group author.
+// EtAl marks a list that names only the first author(s). PMID/PMCID/DOI are bare identifiers, not links.
+export interface RawCitation {
+  "Authors": string[];
+  "EtAl"?: boolean;
+  "Year": number;
+  "Title"?: string;
+  "Journal"?: string; // NLM abbreviation
+  "Volume"?: string;
+  "Issue"?: string;
+  "Pages"?: string;
+  "Publisher"?: string; // for reports and web pages without a journal
+  "PMID"?: string;
+  "PMCID"?: string;
+  "DOI"?: string;
+}
+
+// One study of a multi-study test, as stored in tests.json; pooling needs the full 2×2 counts
+export interface RawStudy {
+  "Id": string; // unique within the test
+  "Label": string; // e.g. "Maisel 2002"
+  "TP": number;
+  "FP": number;
+  "FN": number;
+  "TN": number;
+  "Setting"?: string;
+  "Reference": string;
+  "ReferenceUrl"?: string;
+  "Citation"?: RawCitation;
+}
+
+// One result category of a multi-level test, as stored in tests.json: how many study participants with and
+// without the condition had this result. Categories are listed from most to least suggestive of the condition.
+export interface RawResultCategory {
+  "Id": string; // unique within the test
+  "Label": string; // e.g. "High probability"
+  "Diseased": number;
+  "NonDiseased": number;
+}
+
+// One subgroup of a test, as stored in tests.json; LR± are derived from Se/Sp when not given
+export interface RawSubgroup {
+  "Id": string; // unique within the test
+  "Label": string; // e.g. "Distal (calf) DVT"
+  "Sensitivity": number;
+  "Specificity": number;
+  "LR+"?: number;
+  "LR-"?: number;
+  "SensitivityCI"?: [number, number];
+  "SpecificityCI"?: [number, number];
+  "Note"?: string;
+  "Reference": string;
+  "ReferenceUrl"?: string;
+  "Citation"?: RawCitation;
+}
+
+// "higher": a result at or above the cutoff is positive (e.g. PSA); "lower": at or below is positive
+export type ThresholdDirection = "higher" | "lower";
+
+export interface OperatingPoint {
+  cutoff: number;
+  label: string;
+  sensitivity: number;
+  specificity: number;
+}
+
+export interface ThresholdSet {
+  unit: string;
+  direction: ThresholdDirection;
+  points: OperatingPoint[]; // ascending cutoff
+  reference: string | null;
+  referenceUrl: string | null;
+}
+
+export interface ValueStratum {
+  from: number | null; // inclusive; null = open-ended
+  to: number | null; // exclusive; null = open-ended
+  lr: number;
+  ci: Interval | null;
+}
+
+export interface IntervalLrSet {
+  unit: string;
+  strata: ValueStratum[]; // ascending and contiguous
+  reference: string | null;
+  referenceUrl: string | null;
+}
+
+export interface TestsFile {
+  version: number;
+  tests: RawRow[];
+}
+
+export interface StudyNotes {
+  overview?: string;
+  sampleSize?: string;
+  population?: string;
+  setting?: string;
+  design?: string;
+  year?: string;
+  caveats?: string[];
+  extra?: string;
+  source?: string; // provenance of the notes themselves (not rendered)
+}
+
+export interface StudyNotesFile {
+  datasetVersion: number; // tests.json version these notes were last checked against
+  notes: Record<string, StudyNotes>; // keyed by RawRow.Id
+}
+
+export interface Citation {
+  authors: string[];
+  etAl: boolean;
+  year: number;
+  title?: string;
+  journal?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  publisher?: string;
+  pmid?: string;
+  pmcid?: string;
+  doi?: string;
+  url?: string | null;
+}
+
+export interface ResultCategory {
+  id: string;
+  label: string;
+  diseased: number;
+  nonDiseased: number;
+}
+
+export interface ResultScale {
+  categories: ResultCategory[]; // most to least suggestive of the condition
+  reference: string | null;
+  referenceUrl: string | null;
+}
+
+export interface Study {
+  id: string;
+  label: string;
+  counts: TwoByTwo;
+  setting?: string;
+  reference: string;
+  referenceUrl?: string | null;
+  citation?: Citation | null;
+}
+
+export interface Subgroup {
+  id: string;
+  label: string;
+  sensitivity: number;
+  specificity: number;
+  lrPlus: number;
+  lrMinus: number;
+  ci: { sensitivity?: Interval; specificity?: Interval };
+  note?: string;
+  reference: string;
+  referenceUrl?: string | null;
+  citation?: Citation | null;
+}
+
+export interface TestData {
+  id: string;
+  test: string;
+  condition: string;
+  sensitivity: number;
+  specificity: number;
+  lrPlus: number;
+  lrMinus: number;
+  reference: string;
+  referenceUrl?: string | null;
+  citation?: Citation | null;
+  counts?: TwoByTwo | null;
+  ci?: {
+    sensitivity?: Interval;
+    specificity?: Interval;
+    lrPlus?: Interval;
+    lrMinus?: Interval;
+  };
+  thresholds?: ThresholdSet | null;
+  intervalLrs?: IntervalLrSet | null; // used for a measured value in place of strata derived from thresholds
+  studiedRange?: Interval | null; // measured values outside it get an extrapolation warning
+  studies?: Study[] | null; // two or more; the row's own Se/Sp stay the headline estimate
+  subgroups?: Subgroup[] | null;
+  results?: ResultScale | null; // replaces the positive/negative result with a category picker
+  local?: boolean; // imported in the browser (see local-import.ts), not part of tests.json
+}
+
+// --- Clinical prediction rules (prediction-rules.json) --------------------------------
+// An item is either a yes/no finding worth `points`, or a choice between `options` (the first is the default).
+export interface PredictionRuleOption {
+  label: string;
+  points: number;
+}
+
+export interface PredictionRuleItem {
+  id: string;
+  label: string;
+  points?: number;
+  options?: PredictionRuleOption[];
+}
+
+// Scores from min to max (inclusive; either end may be open) carry the published probability of the outcome.
+// `probability: null` marks a stratum that does not yield a usable pre-test probability (e.g. PERC positive).
+export interface PredictionRuleStratum {
+  label: string;
+  min?: number;
+  max?: number;
+  probability: number | null;
+  note?: string;
+}
+
+export interface PredictionRule {
+  id: string;
+  name: string;
+  condition: string; // must match a Condition in tests.json
+  outcome: string;
+  note?: string;
+  items: PredictionRuleItem[];
+  strata: PredictionRuleStratum[]; // ascending, non-overlapping
+  reference: string;
+  referenceUrl?: string;
+}
+
+export interface PredictionRulesFile {
+  version: number;
+  rules: PredictionRule[];
+}
+
+// --- Prevalence presets (prevalence-presets.json) -------------------------------------
+export type PrevalenceSetting = "screening" | "primary-care" | "emergency" | "inpatient" | "specialist";
+
+export interface PrevalencePreset {
+  setting: PrevalenceSetting;
+  label: string;
+  prevalence: number; // 0–1
+  note?: string;
+  reference: string;
+  referenceUrl?: string;
+}
+
+export interface PrevalencePresetsFile {
+  version: number;
+  presets: Record<string, PrevalencePreset[]>; // keyed by Condition; every condition in tests.json needs an entry
+}
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DATA, type ResultScale, type TestData } from "../data";
+import { accuracyFor, categoryLrs, findCategory, postTestEstimate, ratioInterval, wilsonInterval } from "./accuracy";
+import { postTestProb } from "./diagnostic-math";
+
+const close = (actual: number, expected: number, eps = 1e-9) => assert.ok(Math.abs(actual - expected) < eps, `expected ${expected}, got ${actual}`);
+
+const row = (counts: TestData["counts"]): TestData => ({ id: "x", test: "X", condition: "Y", sensitivity: 0, specificity: 0, lrPlus: 0, lrMinus: 0, reference: "Example", counts });
+
+describe("wilsonInterval", () => {
+  it("matches Newcombe's (1998) worked examples", () => {
+    const a = wilsonInterval(81, 263);
+    close(a.lower, 0.2553, 1e-4);
+    close(a.upper, 0.3662, 1e-4);
+    const b = wilsonInterval(15, 148);
+    close(b.lower, 0.0624, 1e-4);
+    close(b.upper, 0.1605, 1e-4);
+  });
+
+  it("stays inside [0, 1] and is not degenerate for 0/n and n/n", () => {
+    const none = wilsonInterval(0, 10);
+    assert.equal(none.lower, 0);
+    close(none.upper, 0.2775, 1e-4);
+    const all = wilsonInterval(10, 10);
+    close(all.lower, 0.7225, 1e-4);
+    close(all.upper, 1);
+    assert.deepEqual(wilsonInterval(0, 0), { lower: 0, upper: 1 });
+  });
+});
+
+describe("ratioInterval / LR± from counts", () => {
+  it("uses the Simel log method", () => {
+    // Se 90/100, 1 − Sp 20/100: LR+ 4.5, SE(ln LR) = √(1/90 − 1/100 + 1/20 − 1/100)
+    const r = ratioInterval(90, 100, 20, 100);
+    close(r.value, 4.5);
+    const se = Math.sqrt(1 / 90 - 1 / 100 + 1 / 20 - 1 / 100);
+    close(r.ci.lower, 4.5 * Math.exp(-1.959964 * se));
+    close(r.ci.upper, 4.5 * Math.exp(1.959964 * se));
+    close(r.ci.lower, 3.024, 1e-3);
+    close(r.ci.upper, 6.696, 1e-3);
+  });
+
+  it("gives Wilson Se/Sp and log-method LR± for a row with counts", () => {
+    const acc = accuracyFor(row({ tp: 90, fn: 10, fp: 20, tn: 80 }));
+    close(acc.sensitivity.value, 0.9);
+    assert.deepEqual(acc.sensitivity.ci, wilsonInterval(90, 100));
+    close(acc.lrPlus.value, 4.5);
+    close(acc.lrMinus.value, 0.125);
+    close(acc.lrMinus.ci!.lower, 0.0689, 1e-4);
+    close(acc.lrMinus.ci!.upper, 0.2269, 1e-4);
+    assert.equal(acc.lrPlus.corrected, false);
+  });
+
+  it("adds 0.5 to every cell when one is zero", () => {
+    const acc = accuracyFor(row({ tp: 10, fn: 0, fp: 5, tn: 15 }));
+    assert.equal(acc.lrMinus.corrected, true);
+    close(acc.lrMinus.value, (0.5 / 11) / (15.5 / 21));
+    close(acc.lrPlus.value, (10.5 / 11) / (5.5 / 21));
+    assert.ok(acc.lrMinus.value > 0 && acc.lrMinus.ci!.upper < 1);
+    // Se keeps the uncorrected proportion
+    close(acc.sensitivity.value, 1);
+  });
+
+  it("corrects degenerate published LRs on a nominal cohort", () => {
+    const t: TestData = { ...row(null), sensitivity: 1, specificity: 0.8, lrPlus: 5, lrMinus: 0 };
+    const acc = accuracyFor(t);
+    assert.equal(acc.lrMinus.corrected, true);
+    close(acc.lrMinus.value, 0.005 / 0.8);
+    assert.equal(acc.lrPlus.value, 5);
+  });
+});
+
+describe("categoryLrs / findCategory", () => {
+  const ferritin = DATA.find(t => t.id === "ferritin")!.results!;
+
+  it("matches the published ferritin stratum LRs", () => {
+    const lrs = categoryLrs(ferritin).map(e => e.lr.value);
+    [51.85, 4.85, 1.05, 0.39, 0.08].forEach((lr, i) => close(lrs[i], lr, 0.01));
+    const shares = categoryLrs(ferritin);
+    close(shares.reduce((n, e) => n + e.pDiseased, 0), 1);
+  });
+
+  it("corrects a category that is empty on one side", () => {
+    const scale: ResultScale = {
+      categories: [
+        { id: "high", label: "High", diseased: 10, nonDiseased: 0 },
+        { id: "low", label: "Low", diseased: 10, nonDiseased: 20 },
+      ],
+      reference: null,
+      referenceUrl: null,
+    };
+    const [high, low] = categoryLrs(scale);
+    assert.equal(high.lr.corrected, true);
+    close(high.lr.value, (10.5 / 21) / (0.5 / 21));
+    assert.equal(low.lr.corrected, false);
+    close(low.lr.value, (10 / 20) / (20 / 20));
+  });
+
+  it("finds a category by id or label, ignoring case", () => {
+    const scale: ResultScale = { categories: [{ id: "PI-RADS-5", label: "PI-RADS 5", diseased: 9, nonDiseased: 1 }, { id: "low", label: "Low", diseased: 1, nonDiseased: 9 }], reference: null, referenceUrl: null };
+    assert.equal(findCategory(scale, "PI-RADS-5")?.id, "PI-RADS-5");
+    assert.equal(findCategory(scale, "pi-rads-5")?.id, "PI-RADS-5");
+    assert.equal(findCategory(scale, " pi-rads 5 ")?.id, "PI-RADS-5");
+    assert.equal(findCategory(ferritin, "15-34")?.label, "15–34 µg/L");
+    assert.equal(findCategory(scale, "medium"), null);
+  });
+});
+
+describe("postTestEstimate", () => {
+  it("carries the LR interval through to the post-test probability", () => {
+    const e = postTestEstimate(0.2, { value: 4.5, ci: { lower: 3, upper: 6 } });
+    close(e.value, postTestProb(0.2, 4.5));
+    close(e.ci!.lower, postTestProb(0.2, 3));
+    close(e.ci!.upper, postTestProb(0.2, 6));
+    assert.equal(postTestEstimate(0.2, { value: 2, ci: null }).ci, null);
+  });
+});
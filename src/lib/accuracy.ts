@@ -0,0 +1,125 @@
+import type { Interval, ResultScale, TestData, TwoByTwo } from "../data/schema";
+import { clamp01, postTestProb } from "./diagnostic-math";
+
+/**
+ * Accuracy estimates with uncertainty
+ * - Wilson intervals for Se/Sp and log-method intervals for LR± from 2×2 counts
+ * - Published CIs when a row has no counts
+ * - Continuity corrections for degenerate LRs (LR− = 0, LR+ = ∞), so no result forces 0% or 100%
+ * - Per-category LRs for tests with more than two result levels
+ *
+ * The web app, the `dtx` CLI and any other consumer read LRs through `accuracyFor`, so the
+ * numbers they show agree.
+ */
+
+// --- Confidence intervals ---------------------------------------------------------------
+export const Z95 = 1.959964;
+
+// Wilson score interval for a binomial proportion x/n
+export function wilsonInterval(x: number, n: number, z = Z95): Interval {
+  if (n <= 0) return { lower: 0, upper: 1 };
+  const p = x / n;
+  const z2 = z * z;
+  const denom = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denom;
+  const half = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return { lower: clamp01(centre - half), upper: clamp01(centre + half) };
+}
+
+// Log-method interval for a ratio of two proportions (a/n1) / (b/n2) — Simel et al. 1991
+export function ratioInterval(a: number, n1: number, b: number, n2: number, z = Z95) {
+  const ratio = (a / n1) / (b / n2);
+  const se = Math.sqrt(1 / a - 1 / n1 + 1 / b - 1 / n2);
+  return { value: ratio, ci: { lower: ratio * Math.exp(-z * se), upper: ratio * Math.exp(z * se) } };
+}
+
+// LR± from 2×2 counts; Haldane–Anscombe correction (+0.5 per cell) when any cell is zero
+function lrFromCounts(c: TwoByTwo) {
+  const corrected = c.tp === 0 || c.fp === 0 || c.fn === 0 || c.tn === 0;
+  const k = corrected ? 0.5 : 0;
+  const tp = c.tp + k, fp = c.fp + k, fn = c.fn + k, tn = c.tn + k;
+  return {
+    lrPlus: ratioInterval(tp, tp + fn, fp, fp + tn),
+    lrMinus: ratioInterval(fn, tp + fn, tn, fp + tn),
+    corrected,
+  };
+}
+
+// --- Accuracy estimates with uncertainty -----------------------------------------------
+export interface Estimate {
+  value: number;
+  ci: Interval | null;
+  corrected?: boolean; // a continuity correction replaced a degenerate (0 / ∞) value
+}
+
+export interface AccuracyEstimates {
+  sensitivity: Estimate;
+  specificity: Estimate;
+  lrPlus: Estimate;
+  lrMinus: Estimate;
+}
+
+// Rows without counts that report Se or Sp of exactly 0 or 1 are treated as if drawn from a cohort of this size
+// (i.e. a 0.5 continuity correction on each proportion) so LR− = 0 cannot force a 0% post-test probability.
+export const NOMINAL_COHORT_SIZE = 100;
+
+export function accuracyFor(t: TestData): AccuracyEstimates {
+  if (t.counts) {
+    const { tp, fp, fn, tn } = t.counts;
+    const lr = lrFromCounts(t.counts);
+    return {
+      sensitivity: { value: tp / (tp + fn), ci: wilsonInterval(tp, tp + fn) },
+      specificity: { value: tn / (tn + fp), ci: wilsonInterval(tn, tn + fp) },
+      lrPlus: { ...lr.lrPlus, corrected: lr.corrected },
+      lrMinus: { ...lr.lrMinus, corrected: lr.corrected },
+    };
+  }
+
+  const k = 0.5 / NOMINAL_COHORT_SIZE;
+  const se = Math.min(Math.max(t.sensitivity, k), 1 - k);
+  const sp = Math.min(Math.max(t.specificity, k), 1 - k);
+  const plusDegenerate = !Number.isFinite(t.lrPlus) || t.specificity >= 1;
+  const minusDegenerate = !(t.lrMinus > 0) || t.sensitivity >= 1;
+  return {
+    sensitivity: { value: t.sensitivity, ci: t.ci?.sensitivity ?? null },
+    specificity: { value: t.specificity, ci: t.ci?.specificity ?? null },
+    lrPlus: plusDegenerate ? { value: se / (1 - sp), ci: null, corrected: true } : { value: t.lrPlus, ci: t.ci?.lrPlus ?? null },
+    lrMinus: minusDegenerate ? { value: (1 - se) / sp, ci: null, corrected: true } : { value: t.lrMinus, ci: t.ci?.lrMinus ?? null },
+  };
+}
+
+// --- Multi-level results ------------------------------------------------------------------
+export interface CategoryEstimate {
+  id: string;
+  label: string;
+  pDiseased: number; // share of people with the condition who get this result
+  pNonDiseased: number; // share of people without it who get this result
+  lr: Estimate;
+}
+
+// LR of a category = P(result | condition) / P(result | no condition), with a log-method CI.
+// A category that is empty on one side gets 0.5 added to both of its counts (and to the rest of the scale).
+export function categoryLrs(scale: ResultScale): CategoryEstimate[] {
+  const diseased = scale.categories.reduce((n, c) => n + c.diseased, 0);
+  const nonDiseased = scale.categories.reduce((n, c) => n + c.nonDiseased, 0);
+  return scale.categories.map(c => {
+    const corrected = c.diseased === 0 || c.nonDiseased === 0;
+    const k = corrected ? 0.5 : 0;
+    const lr = ratioInterval(c.diseased + k, diseased + 2 * k, c.nonDiseased + k, nonDiseased + 2 * k);
+    return { id: c.id, label: c.label, pDiseased: c.diseased / diseased, pNonDiseased: c.nonDiseased / nonDiseased, lr: { ...lr, corrected } };
+  });
+}
+
+// A category picked by id or (case-insensitive) label, as the CLI and API accept it
+export function findCategory(scale: ResultScale, ref: string): CategoryEstimate | null {
+  const key = ref.trim().toLowerCase();
+  return categoryLrs(scale).find(e => e.id.toLowerCase() === key || e.label.toLowerCase() === key) ?? null;
+}
+
+// Post-test probability with the LR interval propagated through the same odds math
+export function postTestEstimate(prevalence: number, lr: Estimate): Estimate {
+  return {
+    value: postTestProb(prevalence, lr.value),
+    ci: lr.ci ? { lower: postTestProb(prevalence, lr.ci.lower), upper: postTestProb(prevalence, lr.ci.upper) } : null,
+  };
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DATA, type TestData } from "../data";
+import { activeEstimate, choiceError, includedStudies } from "./active-test";
+
+const byId = (id: string) => DATA.find(t => t.id === id)!;
+const bnp = byId("bnp");
+
+// BNP with a subgroup added, so every level of the precedence can be exercised on one test
+const withSubgroup: TestData = {
+  ...bnp,
+  subgroups: [{ id: "renal", label: "eGFR < 60", sensitivity: 0.8, specificity: 0.6, lrPlus: 2, lrMinus: 1 / 3, ci: {}, reference: "Example" }],
+};
+
+describe("activeEstimate", () => {
+  it("uses the pooled studies by default and the headline row without them", () => {
+    const pooled = activeEstimate(bnp);
+    assert.equal(pooled.kind, "pooled");
+    assert.notEqual(pooled.test.sensitivity, bnp.sensitivity);
+    assert.equal(activeEstimate(byId("ctpa")).kind, "headline");
+  });
+
+  it("prefers a cutoff over a subgroup over the pooled studies", () => {
+    const cutoff = activeEstimate(withSubgroup, { cutoff: 50, subgroup: "renal" });
+    assert.equal(cutoff.kind, "cutoff");
+    assert.deepEqual([cutoff.test.sensitivity, cutoff.test.specificity], [0.97, 0.62]);
+    const subgroup = activeEstimate(withSubgroup, { subgroup: "renal" });
+    assert.equal(subgroup.kind, "subgroup");
+    assert.equal(subgroup.test.lrPlus, 2);
+  });
+
+  it("pools only the included studies", () => {
+    const maisel = activeEstimate(bnp, { excludedStudies: ["dao-2001"] }).test;
+    assert.ok(Math.abs(maisel.sensitivity - 670 / 744) < 1e-9);
+    assert.equal(includedStudies(bnp, ["dao-2001", "maisel-2002"]), null);
+  });
+});
+
+describe("choiceError", () => {
+  it("accepts choices the test offers", () => {
+    assert.equal(choiceError(withSubgroup, { cutoff: 100, subgroup: "renal", excludedStudies: ["dao-2001"] }), null);
+  });
+
+  it("names the valid options for unknown choices", () => {
+    assert.match(choiceError(bnp, { cutoff: 60 })!, /50, 80, 100, 125, 150 pg\/mL/);
+    assert.match(choiceError(bnp, { subgroup: "renal" })!, /no subgroups/);
+    assert.match(choiceError(bnp, { excludedStudies: ["smith-1999"] })!, /maisel-2002, dao-2001/);
+    assert.match(choiceError(bnp, { excludedStudies: ["dao-2001", "maisel-2002"] })!, /at least one study/);
+  });
+});
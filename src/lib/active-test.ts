@@ -0,0 +1,86 @@
+import type { OperatingPoint, Subgroup, TestData, ThresholdSet } from "../data/schema";
+import { lrNegative, lrPositive } from "./diagnostic-math";
+import { pooledTest } from "./meta-analysis";
+
+/**
+ * The estimate a test is evaluated with, shared by the explorer, the dtx CLI and the API
+ * - Precedence: a chosen cutoff, else a chosen subgroup, else the pool of the included studies, else the headline row
+ * - Each variant keeps the test's id and name and replaces Se, Sp, LR± and (where it has its own) the citation
+ *
+ * Unknown cutoffs, subgroups and study ids are ignored; callers that take them from users check `choiceError` first.
+ */
+
+export interface EstimateChoice {
+  cutoff?: number | null; // a Thresholds cutoff, in the test's unit
+  subgroup?: string | null; // Subgroup id
+  excludedStudies?: readonly string[]; // Study ids left out of the pool
+}
+
+// The row's Se/Sp/LR± re-evaluated at one operating point of its threshold set
+export function atOperatingPoint(t: TestData, set: ThresholdSet, point: OperatingPoint): TestData {
+  const { sensitivity: se, specificity: sp } = point;
+  return {
+    ...t,
+    sensitivity: se,
+    specificity: sp,
+    lrPlus: lrPositive(se, sp),
+    lrMinus: lrNegative(se, sp),
+    reference: set.reference ?? t.reference,
+    referenceUrl: set.referenceUrl ?? t.referenceUrl,
+    citation: set.reference ? null : t.citation, // cutoff data cited in free text
+    counts: null,
+    ci: {},
+  };
+}
+
+// The row's estimate replaced by one subgroup's, cited to the subgroup's own source
+export function inSubgroup(t: TestData, g: Subgroup): TestData {
+  return {
+    ...t,
+    sensitivity: g.sensitivity,
+    specificity: g.specificity,
+    lrPlus: g.lrPlus,
+    lrMinus: g.lrMinus,
+    reference: g.reference,
+    referenceUrl: g.referenceUrl,
+    citation: g.citation,
+    counts: null,
+    ci: g.ci,
+  };
+}
+
+// The studies a multi-study test is pooled from; null when it has fewer than two or all are left out
+export function includedStudies(t: TestData, excluded: readonly string[] = []) {
+  const studies = t.studies && t.studies.length > 1 ? t.studies : null;
+  const included = studies?.filter(s => !excluded.includes(s.id)) ?? null;
+  return included && included.length > 0 ? included : null;
+}
+
+export type EstimateKind = "cutoff" | "subgroup" | "pooled" | "headline";
+
+export function activeEstimate(t: TestData, choice: EstimateChoice = {}): { kind: EstimateKind; test: TestData } {
+  const point = choice.cutoff != null ? t.thresholds?.points.find(p => p.cutoff === choice.cutoff) : undefined;
+  if (point) return { kind: "cutoff", test: atOperatingPoint(t, t.thresholds!, point) };
+  const subgroup = choice.subgroup != null ? t.subgroups?.find(g => g.id === choice.subgroup) : undefined;
+  if (subgroup) return { kind: "subgroup", test: inSubgroup(t, subgroup) };
+  const studies = includedStudies(t, choice.excludedStudies);
+  return studies ? { kind: "pooled", test: pooledTest(t, studies) } : { kind: "headline", test: t };
+}
+
+export const activeTest = (t: TestData, choice: EstimateChoice = {}) => activeEstimate(t, choice).test;
+
+// Why a user-supplied choice can't apply to the test, or null when it can
+export function choiceError(t: TestData, choice: EstimateChoice): string | null {
+  if (choice.cutoff != null && !t.thresholds?.points.some(p => p.cutoff === choice.cutoff)) {
+    return t.thresholds
+      ? `${t.test} has no cutoff ${choice.cutoff}; choose one of ${t.thresholds.points.map(p => p.cutoff).join(", ")} ${t.thresholds.unit}`.trim()
+      : `${t.test} has no cutoffs`;
+  }
+  if (choice.subgroup != null && !t.subgroups?.some(g => g.id === choice.subgroup)) {
+    return t.subgroups ? `${t.test} has no subgroup "${choice.subgroup}"; choose one of ${t.subgroups.map(g => g.id).join(", ")}` : `${t.test} has no subgroups`;
+  }
+  const unknown = choice.excludedStudies?.find(id => !t.studies?.some(s => s.id === id));
+  if (unknown !== undefined) return t.studies ? `${t.test} has no study "${unknown}"; its studies are ${t.studies.map(s => s.id).join(", ")}` : `${t.test} has no studies to exclude`;
+  if (t.studies && choice.excludedStudies && !includedStudies(t, choice.excludedStudies)) return "at least one study must stay in the pooled estimate";
+  return null;
+}
@@ -0,0 +1,72 @@
+import { DETAILS, PREVALENCE_PRESETS, type PrevalencePreset, type StudyNotes, type TestData } from "../data";
+import type { Estimate } from "./accuracy";
+import type { EstimateKind } from "./active-test";
+
+/**
+ * Response shapes and helpers for the read-only JSON API under /api
+ * - Every body carries `datasetVersion` so clients can tell when the curated data changed
+ * - Tests are addressed by their stable id (the `Id` column of tests.json), never by display name
+ * - Errors are `{ error }` with a 4xx status
+ *
+ * The data only changes on deploy, so responses may be cached by browsers and CDNs.
+ */
+
+export interface TestWithNotes extends TestData {
+  notes: StudyNotes | null;
+}
+
+export interface TestsResponse {
+  datasetVersion: number;
+  count: number;
+  tests: TestWithNotes[];
+}
+
+export interface TestResponse {
+  datasetVersion: number;
+  test: TestWithNotes;
+}
+
+export interface ConditionSummary {
+  name: string;
+  tests: string[]; // test ids
+  presets: readonly PrevalencePreset[];
+}
+
+export interface ConditionsResponse {
+  datasetVersion: number;
+  conditions: ConditionSummary[];
+}
+
+export interface PostTestResponse {
+  datasetVersion: number;
+  test: string; // test id
+  estimate: EstimateKind | null; // which estimate LR± come from: cutoff > subgroup > pooled studies > headline; null for a category
+  prevalence: number; // 0–1
+  result: "positive" | "negative" | null; // null when a result category was given
+  category: { id: string; label: string } | null;
+  lr: Estimate;
+  postTest: Estimate;
+}
+
+export interface ErrorResponse {
+  error: string;
+}
+
+const CACHE_CONTROL = "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400";
+
+export function withNotes(t: TestData): TestWithNotes {
+  return { ...t, notes: DETAILS[t.id] ?? null };
+}
+
+export function conditionSummary(name: string, rows: readonly TestData[]): ConditionSummary {
+  return { name, tests: rows.filter(t => t.condition === name).map(t => t.id), presets: PREVALENCE_PRESETS[name] ?? [] };
+}
+
+export function jsonResponse<T>(body: T, init: { status?: number } = {}) {
+  return Response.json(body, { status: init.status ?? 200, headers: { "Cache-Control": CACHE_CONTROL } });
+}
+
+// Errors depend only on the request, so they are cacheable too, but not for long
+export function errorResponse(status: number, error: string) {
+  return Response.json({ error } satisfies ErrorResponse, { status, headers: { "Cache-Control": "public, max-age=60" } });
+}
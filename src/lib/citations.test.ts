@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { Citation, TestData } from "../data";
+import { toBibtex, toRis } from "./citations";
+
+type Cited = Pick<TestData, "id" | "reference" | "referenceUrl" | "citation">;
+
+const cited = (id: string, citation: Partial<Citation> | null, reference = `Ref ${id}`): Cited => ({
+  id,
+  reference,
+  referenceUrl: null,
+  citation: citation && { authors: ["Lee JK"], etAl: false, year: 2014, title: "A study", journal: "Ann Intern Med", ...citation },
+});
+
+const entries = (bib: string) => bib.trim().split(/\n\n(?=@)/);
+const keyOf = (entry: string) => /^@\w+\{([^,]+),/.exec(entry)![1];
+
+describe("uniqueSources (through the exports)", () => {
+  it("writes tests citing the same DOI or PMID once", () => {
+    const tests = [
+      cited("a", { doi: "10.1000/x", pmid: "1" }),
+      cited("b", { doi: "10.1000/x", pmid: "2" }),
+      cited("c", { pmid: "3" }),
+      cited("d", { pmid: "3", title: "Same paper, other test" }),
+      cited("e", { pmid: "4" }),
+    ];
+    assert.equal(entries(toBibtex(tests)).length, 3);
+    assert.equal(toRis(tests).match(/^TY {2}- /gm)?.length, 3);
+  });
+
+  it("merges uncited tests by reference text and link", () => {
+    const tests = [cited("a", null, "Local data"), cited("b", null, "Local data"), cited("c", null, "Other data")];
+    assert.equal(toRis(tests).match(/^TY {2}- GEN/gm)?.length, 2);
+  });
+});
+
+describe("toBibtex", () => {
+  it("suffixes colliding keys a, b, …", () => {
+    const tests = [cited("a", { pmid: "1" }), cited("b", { pmid: "2" }), cited("c", { pmid: "3" }), cited("d", { pmid: "4", authors: ["Smith A"] })];
+    assert.deepEqual(entries(toBibtex(tests)).map(keyOf), ["lee2014", "lee2014a", "lee2014b", "smith2014"]);
+  });
+
+  it("escapes &, % and _ in text fields", () => {
+    const bib = toBibtex([cited("a", { title: "Risk & reward: 50% of cases_2", journal: "J R&D" })]);
+    assert.match(bib, /title = \{\{Risk \\& reward: 50\\% of cases\\_2\}\}/);
+    assert.match(bib, /journal = \{J R\\&D\}/);
+  });
+
+  it("braces group authors and inverts personal names", () => {
+    const bib = toBibtex([cited("a", { authors: ["Lee JK", "NICE Guideline Committee"], etAl: true })]);
+    assert.match(bib, /author = \{Lee, J\. K\. and \{NICE Guideline Committee\} and others\}/);
+    assert.equal(keyOf(toBibtex([cited("n", { authors: ["NICE Guideline Committee"] })])), "nice2014");
+  });
+
+  it("writes uncited tests as misc entries keyed by id", () => {
+    const bib = toBibtex([cited("local-my_test", null, "Audit 2024 & co")]);
+    assert.match(bib, /^@misc\{localmytest,/);
+    assert.match(bib, /note = \{Audit 2024 \\& co\}/);
+  });
+});
+
+describe("toRis", () => {
+  const ris = toRis([cited("a", { pmid: "1", pages: "171-81" }), cited("b", null)]);
+
+  it("ends every line in CRLF", () => {
+    assert.ok(ris.endsWith("\r\n"));
+    assert.equal(ris.replace(/\r\n/g, "").includes("\n"), false);
+  });
+
+  it("closes every record with an ER line", () => {
+    const records = ris.slice(0, -2).split("\r\n\r\n");
+    assert.equal(records.length, 2);
+    for (const r of records) {
+      const lines = r.split("\r\n");
+      assert.match(lines[0], /^TY {2}- /);
+      assert.equal(lines[lines.length - 1], "ER  - ");
+    }
+    assert.match(records[0], /\r\nAU {2}- Lee, J\. K\.\r\n/);
+    assert.match(records[0], /\r\nSP {2}- 171\r\nEP {2}- 81\r\n/);
+  });
+});
@@ -0,0 +1,176 @@
+import type { Citation, TestData } from "../data/schema";
+
+/**
+ * Citations
+ * - Formats a test's structured citation in Vancouver (ICMJE/NLM) or APA 7 style, falling back to the
+ *   free-text `reference` for tests without one (local imports)
+ * - Exports references as RIS or BibTeX for reference managers (Zotero, EndNote, Mendeley, JabRef);
+ *   tests citing the same source are written once
+ *
+ * Authors are stored in Vancouver order ("Lee JK"); anything without trailing initials is a group author
+ * and is never inverted. `etAl` lists that name only the first author(s) stay that way in every style.
+ */
+
+export type CitationStyle = "vancouver" | "apa";
+
+export const CITATION_STYLES: { value: CitationStyle; label: string }[] = [
+  { value: "vancouver", label: "Vancouver" },
+  { value: "apa", label: "APA" },
+];
+
+type Cited = Pick<TestData, "id" | "reference" | "referenceUrl" | "citation">;
+
+const VANCOUVER_MAX_AUTHORS = 6;
+
+// "Dwyer-Hemmings L" → { surname: "Dwyer-Hemmings", initials: ["L"] }; group authors give null
+function personalName(author: string) {
+  const m = /^(.+?)\s+([A-Z]{1,4})$/.exec(author.trim());
+  return m ? { surname: m[1], initials: m[2].split("") } : null;
+}
+
+const apaName = (author: string) => {
+  const p = personalName(author);
+  return p ? `${p.surname}, ${p.initials.map(i => `${i}.`).join(" ")}` : author;
+};
+
+const withPeriod = (s: string) => (/[.?!]$/.test(s) ? s : `${s}.`);
+
+export const doiUrl = (doi: string) => `https://doi.org/${doi}`;
+export const pubmedUrl = (pmid: string) => `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
+export const pmcUrl = (pmcid: string) => `https://pmc.ncbi.nlm.nih.gov/articles/${pmcid}/`;
+
+// --- Formatting ---------------------------------------------------------------------
+// Lee JK, et al. Title. Ann Intern Med. 2014;160(3):171-81. doi:… PMID: ….
+function vancouver(c: Citation) {
+  const shown = c.authors.slice(0, VANCOUVER_MAX_AUTHORS);
+  const etAl = c.etAl || c.authors.length > VANCOUVER_MAX_AUTHORS;
+  const parts = [withPeriod(shown.join(", ") + (etAl ? ", et al" : ""))];
+  if (c.title) parts.push(withPeriod(c.title));
+  if (c.journal) {
+    const locator = `${c.volume ? `;${c.volume}` : ""}${c.issue ? `(${c.issue})` : ""}${c.pages ? `:${c.pages}` : ""}`;
+    parts.push(`${c.journal}. ${c.year}${locator}.`);
+  } else parts.push(`${c.publisher ? `${c.publisher}; ` : ""}${c.year}.`);
+  if (c.doi) parts.push(`doi:${c.doi}`);
+  if (c.pmid) parts.push(`PMID: ${c.pmid}.`);
+  else if (c.pmcid) parts.push(`PMCID: ${c.pmcid}.`);
+  return parts.join(" ");
+}
+
+// Lee, J. K., et al. (2014). Title. Ann Intern Med, 160(3), 171–181. https://doi.org/…
+function apa(c: Citation) {
+  const names = c.authors.map(apaName);
+  let authors: string;
+  if (c.etAl) authors = `${names.join(", ")}, et al.`;
+  else if (names.length === 1) authors = names[0];
+  else authors = `${names.slice(0, -1).join(", ")}, & ${names[names.length - 1]}`;
+  const parts = [withPeriod(authors), `(${c.year}).`];
+  if (c.title) parts.push(withPeriod(c.title));
+  if (c.journal) {
+    const locator = `${c.volume ? `, ${c.volume}` : ""}${c.issue ? `(${c.issue})` : ""}${c.pages ? `, ${c.pages.replace("-", "–")}` : ""}`;
+    parts.push(`${c.journal}${locator}.`);
+  } else if (c.publisher && c.publisher !== c.authors[0]) parts.push(withPeriod(c.publisher));
+  const link = c.doi ? doiUrl(c.doi) : c.url;
+  if (link) parts.push(link);
+  return parts.join(" ");
+}
+
+export function formatCitation(t: Cited, style: CitationStyle) {
+  if (!t.citation) return t.reference;
+  return style === "apa" ? apa(t.citation) : vancouver(t.citation);
+}
+
+// Identifier links in order of preference: DOI, PubMed, PubMed Central
+export function citationLinks(c: Citation): { label: string; href: string }[] {
+  return [
+    ...(c.doi ? [{ label: `doi:${c.doi}`, href: doiUrl(c.doi) }] : []),
+    ...(c.pmid ? [{ label: `PMID ${c.pmid}`, href: pubmedUrl(c.pmid) }] : []),
+    ...(c.pmcid ? [{ label: c.pmcid, href: pmcUrl(c.pmcid) }] : []),
+  ];
+}
+
+// --- Export (RIS / BibTeX) ----------------------------------------------------------
+// One entry per source: tests sharing a DOI, PMID, PMCID or reference text are merged
+function uniqueSources(tests: readonly Cited[]) {
+  const seen = new Map<string, Cited>();
+  for (const t of tests) {
+    const c = t.citation;
+    const key = c?.doi ?? (c?.pmid && `pmid:${c.pmid}`) ?? (c?.pmcid && `pmcid:${c.pmcid}`) ?? `ref:${t.reference}|${t.referenceUrl ?? ""}`;
+    if (!seen.has(key)) seen.set(key, t);
+  }
+  return Array.from(seen.values());
+}
+
+function pageRange(pages: string | undefined) {
+  const [start, end] = (pages ?? "").split(/[-–]/);
+  return { start: start || undefined, end: end || undefined };
+}
+
+export function toRis(tests: readonly Cited[]) {
+  const records = uniqueSources(tests).map(t => {
+    const c = t.citation;
+    const tag = (name: string, value: string | number | undefined | null) => (value === undefined || value === null || value === "" ? [] : [`${name}  - ${value}`]);
+    if (!c) return ["TY  - GEN", ...tag("TI", t.reference), ...tag("UR", t.referenceUrl), "ER  - "];
+    const { start, end } = pageRange(c.pages);
+    return [
+      `TY  - ${c.journal ? "JOUR" : "RPRT"}`,
+      ...c.authors.flatMap(a => tag("AU", apaName(a))),
+      ...tag("PY", c.year),
+      ...tag("TI", c.title),
+      ...tag("JO", c.journal),
+      ...tag("VL", c.volume),
+      ...tag("IS", c.issue),
+      ...tag("SP", start),
+      ...tag("EP", end),
+      ...tag("PB", c.publisher),
+      ...tag("DO", c.doi),
+      ...tag("AN", c.pmid),
+      ...tag("C2", c.pmcid),
+      ...tag("UR", c.url ?? (c.doi ? doiUrl(c.doi) : undefined)),
+      ...tag("N1", c.etAl ? "Author list truncated (et al.)" : undefined),
+      "ER  - ",
+    ];
+  });
+  return records.map(r => r.join("\r\n")).join("\r\n\r\n") + "\r\n";
+}
+
+const bibEscape = (s: string) => s.replace(/[\\{}]/g, "").replace(/([&%$#_])/g, "\\$1");
+
+// Keys are surname (or a group author's first word) + year (lee2014), suffixed a, b, … when two sources would share one
+function bibKeys(sources: readonly Cited[]) {
+  const used = new Map<string, number>();
+  return sources.map(t => {
+    const c = t.citation;
+    const base = c
+      ? (personalName(c.authors[0])?.surname ?? c.authors[0].split(/\s+/)[0]).normalize("NFKD").replace(/[^A-Za-z]/g, "").toLowerCase().slice(0, 20) + c.year
+      : t.id.replace(/[^a-z0-9]/g, "");
+    const n = used.get(base) ?? 0;
+    used.set(base, n + 1);
+    return n === 0 ? base : `${base}${String.fromCharCode(96 + n)}`;
+  });
+}
+
+export function toBibtex(tests: readonly Cited[]) {
+  const sources = uniqueSources(tests);
+  const keys = bibKeys(sources);
+  return sources.map((t, i) => {
+    const c = t.citation;
+    const field = (name: string, value: string | number | undefined | null) => (value === undefined || value === null || value === "" ? [] : [`  ${name} = {${value}}`]);
+    const fields = c
+      ? [
+          ...field("author", c.authors.map(a => (personalName(a) ? bibEscape(apaName(a)) : `{${bibEscape(a)}}`)).join(" and ") + (c.etAl ? " and others" : "")),
+          ...field("title", c.title && `{${bibEscape(c.title)}}`),
+          ...field("journal", c.journal && bibEscape(c.journal)),
+          ...field(c.journal ? "publisher" : "howpublished", c.publisher && bibEscape(c.publisher)),
+          ...field("year", c.year),
+          ...field("volume", c.volume),
+          ...field("number", c.issue),
+          ...field("pages", c.pages?.replace(/[-–]/, "--")),
+          ...field("doi", c.doi),
+          ...field("pmid", c.pmid),
+          ...field("pmcid", c.pmcid),
+          ...field("url", c.url),
+        ]
+      : [...field("note", bibEscape(t.reference)), ...field("url", t.referenceUrl)];
+    return `@${c?.journal ? "article" : "misc"}{${keys[i]},\n${fields.join(",\n")}\n}`;
+  }).join("\n\n") + "\n";
+}
@@ -0,0 +1,235 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  chainPostTestProbs,
+  clamp01,
+  combinedLr,
+  diagnosticOddsRatio,
+  lrNegative,
+  lrPositive,
+  naturalFrequencies,
+  npv,
+  oddsToProb,
+  postTestOdds,
+  postTestProb,
+  ppv,
+  probToOdds,
+  youdenJ,
+} from "./diagnostic-math";
+
+const close = (actual: number, expected: number, eps = 1e-9) => assert.ok(Math.abs(actual - expected) < eps, `expected ${expected}, got ${actual}`);
+
+describe("clamp01", () => {
+  it("clamps to [0, 1]", () => {
+    assert.equal(clamp01(-0.2), 0);
+    assert.equal(clamp01(0.4), 0.4);
+    assert.equal(clamp01(1.7), 1);
+  });
+});
+
+describe("probToOdds / oddsToProb", () => {
+  it("converts both ways", () => {
+    assert.equal(probToOdds(0.5), 1);
+    close(probToOdds(0.2), 0.25);
+    close(oddsToProb(0.25), 0.2);
+    close(oddsToProb(probToOdds(0.37)), 0.37);
+  });
+
+  it("maps certainty to 0 and Infinity", () => {
+    assert.equal(probToOdds(0), 0);
+    assert.equal(probToOdds(1), Infinity);
+    assert.equal(oddsToProb(0), 0);
+    assert.equal(oddsToProb(Infinity), 1);
+  });
+
+  it("rejects out-of-range input", () => {
+    assert.throws(() => probToOdds(-0.1), RangeError);
+    assert.throws(() => probToOdds(1.2), RangeError);
+    assert.throws(() => probToOdds(NaN), RangeError);
+    assert.throws(() => oddsToProb(-1), RangeError);
+    assert.throws(() => oddsToProb(NaN), RangeError);
+  });
+});
+
+describe("postTestOdds", () => {
+  it("multiplies pre-test odds by the LR", () => {
+    assert.equal(postTestOdds(0.25, 4), 1);
+    assert.equal(postTestOdds(0, 10), 0);
+    assert.equal(postTestOdds(Infinity, 0.1), Infinity);
+  });
+
+  it("returns NaN for certainty against an infinite or zero LR", () => {
+    assert.ok(Number.isNaN(postTestOdds(0, Infinity)));
+    assert.ok(Number.isNaN(postTestOdds(Infinity, 0)));
+  });
+
+  it("rejects negative odds and LRs", () => {
+    assert.throws(() => postTestOdds(-1, 2), RangeError);
+    assert.throws(() => postTestOdds(1, -2), RangeError);
+    assert.throws(() => postTestOdds(1, NaN), RangeError);
+  });
+});
+
+describe("postTestProb", () => {
+  it("applies Bayes' theorem in odds form", () => {
+    close(postTestProb(0.1, 9), 0.5);
+    close(postTestProb(0.25, 0.02), 0.25 * 0.02 / (0.75 + 0.25 * 0.02));
+    assert.equal(postTestProb(0.3, 1), 0.3);
+  });
+
+  it("never revises certainty with a finite LR", () => {
+    assert.equal(postTestProb(0, 50), 0);
+    assert.equal(postTestProb(1, 0.01), 1);
+    assert.ok(Number.isNaN(postTestProb(0, Infinity)));
+    assert.equal(postTestProb(0.2, Infinity), 1);
+    assert.equal(postTestProb(0.2, 0), 0);
+  });
+
+  it("rejects a pre-test probability outside [0, 1]", () => {
+    assert.throws(() => postTestProb(1.2, 2), RangeError);
+    assert.throws(() => postTestProb(-0.01, 2), RangeError);
+    assert.throws(() => postTestProb(0.5, -1), RangeError);
+  });
+});
+
+describe("chainPostTestProbs", () => {
+  it("feeds each post-test probability into the next test", () => {
+    const probs = chainPostTestProbs(0.2, [4, 0.5]);
+    assert.equal(probs.length, 3);
+    assert.equal(probs[0], 0.2);
+    close(probs[1], 0.5);
+    close(probs[2], 1 / 3);
+  });
+
+  it("returns just the pre-test probability for no tests", () => {
+    assert.deepEqual(chainPostTestProbs(0.4, []), [0.4]);
+  });
+
+  it("rejects invalid steps", () => {
+    assert.throws(() => chainPostTestProbs(2, [1]), RangeError);
+    assert.throws(() => chainPostTestProbs(0.2, [1, -3]), RangeError);
+  });
+});
+
+describe("lrPositive / lrNegative", () => {
+  it("derives LRs from sensitivity and specificity", () => {
+    close(lrPositive(0.9, 0.8), 4.5);
+    close(lrNegative(0.9, 0.8), 0.125);
+  });
+
+  it("handles perfect and degenerate tests", () => {
+    assert.equal(lrPositive(0.9, 1), Infinity);
+    assert.equal(lrNegative(1, 0.7), 0);
+    assert.ok(Number.isNaN(lrPositive(0, 1)));
+    assert.ok(Number.isNaN(lrNegative(1, 0)));
+  });
+
+  it("rejects proportions outside [0, 1]", () => {
+    assert.throws(() => lrPositive(1.1, 0.5), RangeError);
+    assert.throws(() => lrPositive(0.5, -0.1), RangeError);
+    assert.throws(() => lrNegative(NaN, 0.5), RangeError);
+    assert.throws(() => lrNegative(0.5, 2), RangeError);
+  });
+});
+
+describe("ppv / npv", () => {
+  it("matches the 2×2 table at a given prevalence", () => {
+    // 1,000 patients, 10% prevalence, Se 0.9, Sp 0.8: TP 90, FP 180, TN 720, FN 10
+    close(ppv(0.1, 0.9, 0.8), 90 / 270);
+    close(npv(0.1, 0.9, 0.8), 720 / 730);
+  });
+
+  it("agrees with postTestProb", () => {
+    close(ppv(0.3, 0.85, 0.7), postTestProb(0.3, lrPositive(0.85, 0.7)));
+    close(npv(0.3, 0.85, 0.7), 1 - postTestProb(0.3, lrNegative(0.85, 0.7)));
+  });
+
+  it("returns NaN when nobody tests positive or negative", () => {
+    assert.ok(Number.isNaN(ppv(0.2, 0, 1)));
+    assert.ok(Number.isNaN(npv(0.2, 1, 0)));
+  });
+
+  it("rejects probabilities outside [0, 1]", () => {
+    assert.throws(() => ppv(1.5, 0.9, 0.8), RangeError);
+    assert.throws(() => ppv(0.1, 1.5, 0.8), RangeError);
+    assert.throws(() => npv(0.1, 0.9, -0.8), RangeError);
+    assert.throws(() => npv(-0.1, 0.9, 0.8), RangeError);
+  });
+});
+
+describe("naturalFrequencies", () => {
+  it("gives whole-person counts that add up to the cohort", () => {
+    assert.deepEqual(naturalFrequencies(0.1, 0.9, 0.8), { tp: 90, fn: 10, tn: 720, fp: 180 });
+    const c = naturalFrequencies(0.037, 0.83, 0.91, 250);
+    assert.equal(c.tp + c.fn + c.tn + c.fp, 250);
+    assert.equal(c.tp + c.fn, Math.round(0.037 * 250));
+  });
+
+  it("handles prevalence of 0 and 1", () => {
+    assert.deepEqual(naturalFrequencies(0, 0.9, 0.8, 100), { tp: 0, fn: 0, tn: 80, fp: 20 });
+    assert.deepEqual(naturalFrequencies(1, 0.9, 0.8, 100), { tp: 90, fn: 10, tn: 0, fp: 0 });
+  });
+
+  it("rejects out-of-range input", () => {
+    assert.throws(() => naturalFrequencies(1.2, 0.9, 0.8), RangeError);
+    assert.throws(() => naturalFrequencies(0.1, -0.1, 0.8), RangeError);
+    assert.throws(() => naturalFrequencies(0.1, 0.9, 0.8, 0), RangeError);
+    assert.throws(() => naturalFrequencies(0.1, 0.9, 0.8, 10.5), RangeError);
+  });
+});
+
+describe("diagnosticOddsRatio", () => {
+  it("equals LR+ / LR−", () => {
+    close(diagnosticOddsRatio(0.9, 0.8), 36);
+    close(diagnosticOddsRatio(0.7, 0.6), lrPositive(0.7, 0.6) / lrNegative(0.7, 0.6));
+  });
+
+  it("is infinite for a perfect arm and undefined for 0/0", () => {
+    assert.equal(diagnosticOddsRatio(1, 0.5), Infinity);
+    assert.equal(diagnosticOddsRatio(0.5, 1), Infinity);
+    assert.ok(Number.isNaN(diagnosticOddsRatio(1, 0)));
+  });
+
+  it("rejects proportions outside [0, 1]", () => {
+    assert.throws(() => diagnosticOddsRatio(1.2, 0.5), RangeError);
+    assert.throws(() => diagnosticOddsRatio(0.5, -1), RangeError);
+  });
+});
+
+describe("youdenJ", () => {
+  it("is Se + Sp − 1", () => {
+    close(youdenJ(0.9, 0.8), 0.7);
+    assert.equal(youdenJ(1, 1), 1);
+    assert.equal(youdenJ(0.5, 0.5), 0);
+    assert.equal(youdenJ(0, 0), -1);
+  });
+
+  it("rejects proportions outside [0, 1]", () => {
+    assert.throws(() => youdenJ(1.01, 0.5), RangeError);
+    assert.throws(() => youdenJ(0.5, NaN), RangeError);
+  });
+});
+
+describe("combinedLr", () => {
+  it("multiplies conditionally independent LRs", () => {
+    assert.equal(combinedLr([]), 1);
+    assert.equal(combinedLr([2, 3]), 6);
+    close(combinedLr([4, 0.5, 0.25]), 0.5);
+  });
+
+  it("keeps zero and infinite LRs, but not both", () => {
+    assert.equal(combinedLr([0, 5]), 0);
+    assert.equal(combinedLr([Infinity, 5]), Infinity);
+    assert.ok(Number.isNaN(combinedLr([0, Infinity])));
+  });
+
+  it("agrees with chaining post-test probabilities", () => {
+    const chained = chainPostTestProbs(0.15, [3, 0.4, 2]);
+    close(postTestProb(0.15, combinedLr([3, 0.4, 2])), chained[chained.length - 1]);
+  });
+
+  it("rejects negative LRs", () => {
+    assert.throws(() => combinedLr([2, -1]), RangeError);
+    assert.throws(() => combinedLr([NaN]), RangeError);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Diagnostic-accuracy math
+ * - Probability ↔ odds conversion and Bayes' theorem in odds form (post-test odds = pre-test odds × LR)
+ * - Likelihood ratios, PPV/NPV, diagnostic odds ratio and Youden's J from sensitivity and specificity
+ * - Natural frequencies: the expected 2×2 counts when a cohort is tested at a given prevalence
+ * - Combined LRs for serial tests (assuming conditional independence)
+ *
+ * Plain functions with no React or dataset imports, so the UI, API routes and scripts share one
+ * implementation. Edges are explicit rather than accidental:
+ * - A probability of 0 or 1 maps to odds of 0 or Infinity (and back), and certainty is never revised
+ *   by a finite LR: post-test probability stays 0 or 1.
+ * - A perfect test yields an infinite LR+ (Sp = 1) or an LR− of 0 (Se = 1); a ratio whose numerator and
+ *   denominator are both zero (e.g. Se = 0 with Sp = 1) is undefined and returns NaN.
+ * - Probabilities outside [0, 1], negative LRs and NaN inputs throw a RangeError.
+ */
+
+function assertProbability(name: string, p: number) {
+  if (!(p >= 0 && p <= 1)) throw new RangeError(`${name} must be a probability in [0, 1], got ${p}`);
+}
+
+function assertLr(name: string, lr: number) {
+  if (!(lr >= 0)) throw new RangeError(`${name} must be a non-negative likelihood ratio, got ${lr}`);
+}
+
+// a / b where 0/0 is undefined (NaN) and x/0 is +Infinity for x > 0
+function ratio(a: number, b: number) {
+  if (b === 0) return a === 0 ? NaN : Infinity;
+  return a / b;
+}
+
+export const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+// --- Probability and odds -------------------------------------------------------------
+export function probToOdds(p: number) {
+  assertProbability("p", p);
+  return p === 1 ? Infinity : p / (1 - p);
+}
+
+export function oddsToProb(odds: number) {
+  if (!(odds >= 0)) throw new RangeError(`odds must be non-negative, got ${odds}`);
+  return odds === Infinity ? 1 : odds / (1 + odds);
+}
+
+// Pre-test odds × LR. Certainty (odds of 0 or Infinity) is kept for any finite LR; 0 × Infinity is undefined.
+export function postTestOdds(preOdds: number, lr: number) {
+  if (!(preOdds >= 0)) throw new RangeError(`preOdds must be non-negative, got ${preOdds}`);
+  assertLr("lr", lr);
+  if ((preOdds === 0 && lr === Infinity) || (preOdds === Infinity && lr === 0)) return NaN;
+  return preOdds * lr;
+}
+
+export function postTestProb(preTest: number, lr: number) {
+  const odds = postTestOdds(probToOdds(preTest), lr);
+  return Number.isNaN(odds) ? NaN : oddsToProb(odds);
+}
+
+// Serial testing: each test's post-test probability becomes the next test's pre-test probability.
+// Assumes the tests are conditionally independent given disease status.
+export function chainPostTestProbs(preTest: number, lrs: readonly number[]) {
+  const probs = [preTest];
+  for (const lr of lrs) probs.push(postTestProb(probs[probs.length - 1], lr));
+  return probs;
+}
+
+// --- Accuracy measures from sensitivity and specificity --------------------------------
+export function lrPositive(sensitivity: number, specificity: number) {
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  return ratio(sensitivity, 1 - specificity);
+}
+
+export function lrNegative(sensitivity: number, specificity: number) {
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  return ratio(1 - sensitivity, specificity);
+}
+
+// Probability of disease given a positive result; NaN when nobody tests positive
+export function ppv(prevalence: number, sensitivity: number, specificity: number) {
+  assertProbability("prevalence", prevalence);
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  const tp = sensitivity * prevalence;
+  return ratio(tp, tp + (1 - specificity) * (1 - prevalence));
+}
+
+// Probability of no disease given a negative result; NaN when nobody tests negative
+export function npv(prevalence: number, sensitivity: number, specificity: number) {
+  assertProbability("prevalence", prevalence);
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  const tn = specificity * (1 - prevalence);
+  return ratio(tn, tn + (1 - sensitivity) * prevalence);
+}
+
+// Expected 2×2 counts when `total` people at the given prevalence are tested, rounded to whole people
+// (row/column totals stay consistent because the complements are derived by subtraction)
+export function naturalFrequencies(prevalence: number, sensitivity: number, specificity: number, total = 1000) {
+  assertProbability("prevalence", prevalence);
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  if (!(Number.isInteger(total) && total > 0)) throw new RangeError(`total must be a positive integer, got ${total}`);
+  const diseased = Math.round(prevalence * total);
+  const tp = Math.round(sensitivity * diseased);
+  const tn = Math.round(specificity * (total - diseased));
+  return { tp, fn: diseased - tp, tn, fp: total - diseased - tn };
+}
+
+// (Se × Sp) / ((1 − Se) × (1 − Sp)) = LR+ / LR−: Infinity when Se or Sp is 1 (and the other above 0)
+export function diagnosticOddsRatio(sensitivity: number, specificity: number) {
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  return ratio(sensitivity * specificity, (1 - sensitivity) * (1 - specificity));
+}
+
+// Youden's J = Se + Sp − 1, from −1 (always wrong) through 0 (uninformative) to 1 (perfect)
+export function youdenJ(sensitivity: number, specificity: number) {
+  assertProbability("sensitivity", sensitivity);
+  assertProbability("specificity", specificity);
+  return sensitivity + specificity - 1;
+}
+
+// Product of the LRs of several results; valid only for conditionally independent tests.
+// An LR of 0 together with an infinite one is contradictory evidence and returns NaN.
+export function combinedLr(lrs: readonly number[]) {
+  lrs.forEach((lr, i) => assertLr(`lrs[${i}]`, lr));
+  if (lrs.includes(0) && lrs.includes(Infinity)) return NaN;
+  return lrs.reduce((product, lr) => product * lr, 1);
+}
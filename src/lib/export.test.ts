@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DATA, DETAILS, importText } from "../data";
+import { CSV_META_MARKER, exportRows, toCsv, type ExportMeta } from "./export";
+
+const byId = (id: string) => DATA.find(t => t.id === id)!;
+
+const meta: ExportMeta = {
+  exportedAt: "2026-01-02T03:04:05.000Z",
+  datasetVersion: 1,
+  prevalence: 0.2,
+  query: 'heart "failure", acute',
+  condition: "all",
+  sort: { key: "lrPlus", direction: "desc" },
+  url: "https://example.org/?q=heart",
+};
+
+describe("exportRows", () => {
+  it("exports the active estimate of each test", () => {
+    const bnp = byId("bnp");
+    const [pooled] = exportRows([bnp], 0.2, DETAILS);
+    assert.equal(pooled["Estimate"], "pooled");
+    assert.notEqual(pooled["Sensitivity"], bnp.sensitivity);
+    const [cutoff] = exportRows([bnp], 0.2, DETAILS, { bnp: { cutoff: 50 } });
+    assert.equal(cutoff["Estimate"], "cutoff");
+    assert.deepEqual([cutoff["Sensitivity"], cutoff["Specificity"]], [0.97, 0.62]);
+    assert.equal(exportRows([byId("ctpa")], 0.2, DETAILS)[0]["LR+"], byId("ctpa").lrPlus);
+  });
+});
+
+describe("toCsv", () => {
+  const tests = [byId("ctpa"), byId("bnp")];
+  const csv = toCsv(exportRows(tests, meta.prevalence, DETAILS), meta);
+  const lines = csv.replace(/^\uFEFF/, "").split("\r\n");
+
+  it("puts the header first and the metadata in key/value rows after the table", () => {
+    assert.ok(lines[0].startsWith("Id,Test,Condition,Estimate,"));
+    const marker = lines.indexOf(CSV_META_MARKER);
+    assert.equal(marker, tests.length + 2);
+    assert.ok(lines.includes("Dataset version,1"));
+    assert.ok(lines.includes("Sort,lrPlus desc"));
+  });
+
+  it("escapes the search text", () => {
+    assert.ok(lines.includes('Search,"heart ""failure"", acute"'));
+  });
+
+  it("can be imported again without the metadata rows", () => {
+    const imported = importText(csv, "export.csv");
+    assert.deepEqual(imported.issues, []);
+    assert.deepEqual(imported.tests.map(t => t.test), tests.map(t => t.test));
+  });
+});
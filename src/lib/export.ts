@@ -0,0 +1,111 @@
+import type { Interval, StudyNotes, TestData } from "../data/schema";
+import { accuracyFor } from "./accuracy";
+import { activeEstimate, type EstimateChoice } from "./active-test";
+import { postTestProb } from "./diagnostic-math";
+
+/**
+ * Table export (CSV / JSON)
+ * - One row per test, in the order shown, with the estimate in use (chosen cutoff, subgroup or included studies,
+ *   else the pooled studies, else the headline row), 95% CIs, post-test probabilities for both results at the
+ *   current prevalence, and the study-notes fields
+ * - Metadata (dataset version, prevalence, filters, sort) travels with the data: a `meta` object in JSON,
+ *   key/value rows after the table in CSV, below an "Export metadata" row where the local-test importer stops,
+ *   so the header stays the first line and an export can be re-imported
+ * - CSV is Excel-friendly: UTF-8 byte-order mark, CRLF line ends, and text cells that look like formulas are quoted with a leading apostrophe
+ */
+
+export interface ExportMeta {
+  exportedAt: string; // ISO timestamp
+  datasetVersion: number;
+  prevalence: number; // 0–1
+  query: string;
+  condition: string;
+  sort: { key: string; direction: "asc" | "desc" } | null;
+  url?: string;
+}
+
+export type ExportRow = Record<string, string | number | boolean | null>;
+
+const ciCells = (prefix: string, ci: Interval | null): ExportRow => ({ [`${prefix} CI lower`]: ci?.lower ?? null, [`${prefix} CI upper`]: ci?.upper ?? null });
+
+// Numbers are kept at full precision (proportions, not percentages) so spreadsheets can compute with them.
+// `choices` carries the selectors set in the explorer, by test id.
+export function exportRows(
+  tests: readonly TestData[],
+  prevalence: number,
+  details: Readonly<Record<string, StudyNotes>>,
+  choices: Readonly<Record<string, EstimateChoice>> = {},
+): ExportRow[] {
+  return tests.map(row => {
+    const { kind, test: t } = activeEstimate(row, choices[row.id]);
+    const acc = accuracyFor(t);
+    const notes = details[t.id];
+    return {
+      "Id": t.id,
+      "Test": t.test,
+      "Condition": t.condition,
+      "Estimate": kind,
+      "Sensitivity": t.sensitivity,
+      ...ciCells("Sensitivity", acc.sensitivity.ci),
+      "Specificity": t.specificity,
+      ...ciCells("Specificity", acc.specificity.ci),
+      "LR+": t.lrPlus,
+      ...ciCells("LR+", acc.lrPlus.ci),
+      "LR-": t.lrMinus,
+      ...ciCells("LR-", acc.lrMinus.ci),
+      "LR continuity-corrected": Boolean(acc.lrPlus.corrected || acc.lrMinus.corrected),
+      "Pre-test probability": prevalence,
+      "Post-test if positive": postTestProb(prevalence, acc.lrPlus.value),
+      "Post-test if negative": postTestProb(prevalence, acc.lrMinus.value),
+      "Reference": t.reference,
+      "ReferenceUrl": t.referenceUrl ?? null,
+      "PMID": t.citation?.pmid ?? null,
+      "DOI": t.citation?.doi ?? null,
+      "Local": Boolean(t.local),
+      "Overview": notes?.overview ?? null,
+      "Sample size": notes?.sampleSize ?? null,
+      "Population": notes?.population ?? null,
+      "Setting": notes?.setting ?? null,
+      "Design": notes?.design ?? null,
+      "Year": notes?.year ?? null,
+      "Caveats": notes?.caveats?.join("; ") ?? null,
+      "Notes": notes?.extra ?? null,
+    };
+  });
+}
+
+function csvCell(v: ExportRow[string]) {
+  if (v === null) return "";
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : v > 0 ? "Infinity" : "NaN";
+  let s = String(v);
+  if (/^[=+\-@\t\r]/.test(s)) s = "'" + s; // keep spreadsheets from evaluating text as a formula
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export const CSV_META_MARKER = "Export metadata";
+
+export function toCsv(rows: readonly ExportRow[], meta: ExportMeta) {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const metaRows: [string, string | number][] = [
+    ["Exported at", meta.exportedAt],
+    ["Dataset version", meta.datasetVersion],
+    ["Pre-test probability", meta.prevalence],
+    ["Condition", meta.condition],
+    ["Search", meta.query],
+    ["Sort", meta.sort ? `${meta.sort.key} ${meta.sort.direction}` : "none"],
+    ...(meta.url ? [["URL", meta.url] as [string, string]] : []),
+  ];
+  const lines = [
+    columns.map(csvCell).join(","),
+    ...rows.map(r => columns.map(c => csvCell(r[c])).join(",")),
+    "",
+    csvCell(CSV_META_MARKER),
+    ...metaRows.map(([k, v]) => `${csvCell(k)},${csvCell(v)}`),
+  ];
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+// JSON has no Infinity/NaN, so degenerate values become null
+export function toJson(rows: readonly ExportRow[], meta: ExportMeta) {
+  return JSON.stringify({ meta, count: rows.length, tests: rows }, (_key, v) => (typeof v === "number" && !Number.isFinite(v) ? null : v), 2);
+}
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DATA, type ThresholdSet } from "../data";
+import { measure, measurementUnit, parseMeasurement, studiedRange, thresholdLr } from "./measurement";
+
+const close = (actual: number, expected: number, eps = 1e-9) => assert.ok(Math.abs(actual - expected) < eps, `expected ${expected}, got ${actual}`);
+
+const byId = (id: string) => DATA.find(t => t.id === id)!;
+const psa = byId("psa").thresholds!;
+
+describe("thresholdLr", () => {
+  // Thompson 2005 (PCPT), any cancer: (Se at lower cutoff − Se at upper) / (Sp at upper − Sp at lower)
+  const table: [value: number, from: number | null, to: number | null, lr: number][] = [
+    [0.5, null, 1.1, (1 - 0.834) / 0.389],
+    [1.3, 1.1, 1.6, (0.834 - 0.67) / (0.587 - 0.389)],
+    [1.6, 1.6, 2.1, (0.67 - 0.526) / (0.725 - 0.587)],
+    [2.4, 2.1, 2.6, (0.526 - 0.405) / (0.811 - 0.725)],
+    [3, 2.6, 3.1, (0.405 - 0.322) / (0.867 - 0.811)],
+    [3.5, 3.1, 4.1, (0.322 - 0.205) / (0.938 - 0.867)],
+    [5.2, 4.1, 6.1, (0.205 - 0.046) / (0.985 - 0.938)],
+    [7, 6.1, 8.1, (0.046 - 0.017) / (0.994 - 0.985)],
+    [9, 8.1, 10.1, (0.017 - 0.009) / (0.997 - 0.994)],
+    [50, 10.1, null, 0.009 / (1 - 0.997)],
+  ];
+
+  it("matches the PSA stratum LRs of the source table", () => {
+    for (const [value, from, to, lr] of table) {
+      const r = thresholdLr(psa, value);
+      close(r.lr, lr);
+      assert.equal(r.from, from);
+      assert.equal(r.to, to);
+      assert.equal(r.corrected, false);
+      assert.equal(r.reported, false);
+    }
+    close(thresholdLr(psa, 5.2).lr, 3.383, 1e-3);
+    close(thresholdLr(psa, 50).lr, 3, 1e-9);
+  });
+
+  it("rises with the PSA value", () => {
+    // Above 4.1 ng/mL the published strata are thin and rounded (3.38, 3.22, 2.67, 3.0), so only
+    // require that each of them outranks every stratum below 4.1
+    const lrs = [0.5, 1.3, 1.6, 2.4, 3, 3.5, 5.2].map(v => thresholdLr(psa, v).lr);
+    for (let i = 1; i < lrs.length; i++) assert.ok(lrs[i] > lrs[i - 1], `LR at stratum ${i} should exceed the one below`);
+    const below = Math.max(...[0.5, 1.3, 1.6, 2.4, 3, 3.5].map(v => thresholdLr(psa, v).lr));
+    for (const v of [5.2, 7, 9, 50]) assert.ok(thresholdLr(psa, v).lr > below);
+  });
+
+  it("applies the continuity correction only to an empty stratum", () => {
+    const set: ThresholdSet = {
+      unit: "ng/L",
+      direction: "higher",
+      points: [
+        { cutoff: 10, label: "≥ 10 ng/L", sensitivity: 1, specificity: 0.4 },
+        { cutoff: 50, label: "≥ 50 ng/L", sensitivity: 0.6, specificity: 0.9 },
+      ],
+      reference: null,
+      referenceUrl: null,
+    };
+    const empty = thresholdLr(set, 5);
+    assert.equal(empty.corrected, true);
+    close(empty.lr, 0.005 / 0.405);
+    const middle = thresholdLr(set, 20);
+    assert.equal(middle.corrected, false);
+    close(middle.lr, 0.4 / 0.5);
+    close(thresholdLr(set, 80).lr, 0.6 / 0.1);
+  });
+
+  it("reverses the strata for lower-is-positive tests", () => {
+    const set: ThresholdSet = {
+      unit: "%",
+      direction: "lower",
+      points: [
+        { cutoff: 30, label: "≤ 30 %", sensitivity: 0.5, specificity: 0.9 },
+        { cutoff: 50, label: "≤ 50 %", sensitivity: 0.8, specificity: 0.6 },
+      ],
+      reference: null,
+      referenceUrl: null,
+    };
+    const low = thresholdLr(set, 20);
+    assert.equal(low.from, null);
+    assert.equal(low.to, 30);
+    close(low.lr, 0.5 / 0.1);
+    const mid = thresholdLr(set, 40);
+    assert.deepEqual([mid.from, mid.to], [30, 50]);
+    close(mid.lr, 0.3 / 0.3);
+    close(thresholdLr(set, 70).lr, 0.2 / 0.6);
+  });
+});
+
+describe("parseMeasurement", () => {
+  it("reads a bare number or a number with the test's unit", () => {
+    assert.deepEqual(parseMeasurement("420", "pg/mL"), { value: 420, entered: null });
+    assert.deepEqual(parseMeasurement(" 420 pg/mL ", "pg/mL"), { value: 420, entered: null });
+    assert.deepEqual(parseMeasurement("1,250", "pg/mL"), { value: 1250, entered: null });
+    assert.deepEqual(parseMeasurement(".5 ng/mL", "ng/mL"), { value: 0.5, entered: null });
+  });
+
+  it("drops a leading test name however it is written", () => {
+    assert.deepEqual(parseMeasurement("BNP 420 pg/mL", "pg/mL", "BNP"), { value: 420, entered: null });
+    assert.deepEqual(parseMeasurement("CA-125 80 U/mL", "U/mL", "CA-125"), { value: 80, entered: null });
+    assert.deepEqual(parseMeasurement("ca 125: 80", "U/mL", "CA-125"), { value: 80, entered: null });
+    assert.deepEqual(parseMeasurement("CA125=80", "U/mL", "CA-125"), { value: 80, entered: null });
+  });
+
+  it("rejects a test name without a value instead of reading its digits", () => {
+    for (const text of ["CA-125", "CA 125"]) {
+      const r = parseMeasurement(text, "U/mL", "CA-125");
+      assert.ok("error" in r && r.error.startsWith("Enter a number"), text);
+    }
+    const bare = parseMeasurement("CA-125", "U/mL");
+    assert.ok("error" in bare && bare.error.startsWith("Enter a number"));
+  });
+
+  it("rejects negative values and text without a number", () => {
+    assert.deepEqual(parseMeasurement("-3", "ng/mL"), { error: "Measured values can't be negative" });
+    assert.ok("error" in parseMeasurement("high", "ng/mL"));
+  });
+
+  it("converts between concentration units", () => {
+    assert.deepEqual(parseMeasurement("0.42 ng/mL", "pg/mL"), { value: 420, entered: { value: 0.42, unit: "ng/mL" } });
+    assert.deepEqual(parseMeasurement("4 µg/L", "ng/mL"), { value: 4, entered: { value: 4, unit: "µg/L" } });
+    assert.deepEqual(parseMeasurement("14 ng/l", "ng/L"), { value: 14, entered: null });
+    assert.deepEqual(parseMeasurement("80 kU/L", "U/mL"), { value: 80, entered: { value: 80, unit: "kU/L" } });
+    assert.deepEqual(parseMeasurement("0.5 mg/L FEU", "ng/mL FEU"), { value: 500, entered: { value: 0.5, unit: "mg/L FEU" } });
+  });
+
+  it("refuses units that can't be converted or would scale implausibly", () => {
+    assert.deepEqual(parseMeasurement("500 ng/mL DDU", "ng/mL FEU"), { error: "ng/mL DDU can't be converted to ng/mL FEU" });
+    assert.deepEqual(parseMeasurement("80 ng/mL", "U/mL"), { error: "ng/mL can't be converted to U/mL" });
+    const slip = parseMeasurement("4 mg/dL", "ng/mL");
+    assert.ok("error" in slip && slip.error.includes("40000 ng/mL") && slip.error.includes("check the unit"));
+    assert.ok("error" in parseMeasurement("400 pg/mL", "mg/dL"));
+  });
+});
+
+describe("measure", () => {
+  it("uses the shipped cutoffs and studied range of quantitative tests", () => {
+    for (const id of ["bnp", "troponin-hs", "d-dimer-elisa", "ca-125", "psa"]) assert.ok(measurementUnit(byId(id)), id);
+    assert.deepEqual(studiedRange(byId("bnp")), { lower: 5, upper: 1300 });
+    const bnp = measure(byId("bnp"), 420)!;
+    assert.deepEqual([bnp.lr.from, bnp.lr.to, bnp.outside], [150, null, null]);
+    close(bnp.lr.lr, 0.85 / 0.17);
+  });
+
+  it("flags values outside the studied range", () => {
+    assert.equal(measure(byId("bnp"), 2000)!.outside, "above");
+    assert.equal(measure(byId("troponin-hs"), 1)!.outside, "below");
+    assert.equal(measure(byId("psa"), 50)!.outside, null);
+  });
+
+  it("returns null for tests without a measured value", () => {
+    assert.equal(measure(byId("ctpa"), 3), null);
+  });
+});
@@ -0,0 +1,160 @@
+import type { Interval, TestData, ThresholdSet, ValueStratum } from "../data/schema";
+import { NOMINAL_COHORT_SIZE } from "./accuracy";
+
+/**
+ * Measured values of quantitative tests (BNP, hs-troponin, D-dimer, PSA, CA-125, …)
+ * - A value's LR is the reported interval LR of the stratum it falls in, or else the stratum-specific LR
+ *   between the two Thresholds cutoffs around it
+ * - Entries may name the test and unit ("BNP 420 pg/mL"); mass and activity concentrations are converted
+ *   to the test's unit (pg/mL = ng/L, ng/mL = µg/L, U/mL = kU/L, …), anything else must match it
+ * - Values outside the studied range are flagged: the LR of an open-ended stratum is extrapolated there, and a
+ *   converted entry that lands outside it more likely has the wrong unit
+ *
+ * Without a StudiedRange only reported strata closed at both ends give a range; cutoff-derived strata never do.
+ */
+
+export interface ValueLr {
+  lr: number;
+  ci: Interval | null;
+  from: number | null; // stratum bounds in the test's units; null = open-ended
+  to: number | null;
+  corrected: boolean;
+  reported: boolean; // false: derived from the Thresholds cutoffs
+}
+
+export interface Measurement {
+  value: number; // in the test's unit
+  entered: { value: number; unit: string } | null; // set when the entry was converted from another unit
+  lr: ValueLr;
+  outside: "below" | "above" | null; // relative to the studied range
+  range: Interval | null;
+}
+
+export type ParsedValue = { value: number; entered: { value: number; unit: string } | null } | { error: string };
+
+// Stratum-specific (interval) LR: the share of diseased patients whose result falls between two
+// adjacent cutoffs divided by the share of non-diseased patients in the same stratum.
+export function thresholdLr(set: ThresholdSet, value: number): ValueLr {
+  // Orient so that larger (signed) values are "more positive"
+  const sign = set.direction === "lower" ? -1 : 1;
+  const pts = [...set.points].sort((a, b) => sign * (a.cutoff - b.cutoff));
+  const v = sign * value;
+  let j = -1; // highest cutoff the value reaches; −1 = below every cutoff
+  while (j + 1 < pts.length && sign * pts[j + 1].cutoff <= v) j++;
+
+  const seAt = (i: number) => (i < 0 ? 1 : i >= pts.length ? 0 : pts[i].sensitivity);
+  const spAt = (i: number) => (i < 0 ? 0 : i >= pts.length ? 1 : pts[i].specificity);
+  const diseased = seAt(j) - seAt(j + 1);
+  const healthy = spAt(j + 1) - spAt(j);
+  // Haldane correction (half a patient of the nominal cohort on both sides), only when a stratum is empty
+  const corrected = diseased <= 0 || healthy <= 0;
+  const k = corrected ? 0.5 / NOMINAL_COHORT_SIZE : 0;
+  const bounds = [j >= 0 ? pts[j].cutoff : null, j + 1 < pts.length ? pts[j + 1].cutoff : null];
+  return {
+    lr: (Math.max(diseased, 0) + k) / (Math.max(healthy, 0) + k),
+    ci: null,
+    from: sign > 0 ? bounds[0] : bounds[1],
+    to: sign > 0 ? bounds[1] : bounds[0],
+    corrected,
+    reported: false,
+  };
+}
+
+// Reported strata are ascending and contiguous, so the value belongs to the last one it reaches
+export function stratumLr(strata: readonly ValueStratum[], value: number): ValueLr {
+  const s = strata.findLast(s => s.from === null || value >= s.from) ?? strata[0];
+  return { lr: s.lr, ci: s.ci, from: s.from, to: s.to, corrected: false, reported: true };
+}
+
+export const measurementUnit = (t: TestData) => t.intervalLrs?.unit ?? t.thresholds?.unit ?? null;
+
+export function studiedRange(t: TestData): Interval | null {
+  if (t.studiedRange) return t.studiedRange;
+  const strata = t.intervalLrs?.strata;
+  const lower = strata?.[0].from;
+  const upper = strata?.[strata.length - 1].to;
+  return typeof lower === "number" && typeof upper === "number" ? { lower, upper } : null;
+}
+
+export function measure(t: TestData, value: number, entered: Measurement["entered"] = null): Measurement | null {
+  const lr = t.intervalLrs ? stratumLr(t.intervalLrs.strata, value) : t.thresholds ? thresholdLr(t.thresholds, value) : null;
+  if (!lr) return null;
+  const range = studiedRange(t);
+  const outside = range && value < range.lower ? "below" : range && value > range.upper ? "above" : null;
+  return { value, entered, lr, outside, range };
+}
+
+export function fmtStratum(r: Pick<ValueLr, "from" | "to">, unit: string) {
+  if (r.from === null) return `< ${r.to} ${unit}`;
+  if (r.to === null) return `≥ ${r.from} ${unit}`;
+  return `${r.from}–${r.to} ${unit}`;
+}
+
+// --- Entry parsing and units --------------------------------------------------------
+// Concentrations as multiples of g/L (mass) or U/L (activity); keys are normalized spellings
+const UNIT_SCALE: Record<string, { kind: "mass" | "activity"; factor: number }> = {
+  "pg/ml": { kind: "mass", factor: 1e-9 },
+  "ng/l": { kind: "mass", factor: 1e-9 },
+  "ng/dl": { kind: "mass", factor: 1e-8 },
+  "ng/ml": { kind: "mass", factor: 1e-6 },
+  "ug/l": { kind: "mass", factor: 1e-6 },
+  "ug/dl": { kind: "mass", factor: 1e-5 },
+  "ug/ml": { kind: "mass", factor: 1e-3 },
+  "mg/l": { kind: "mass", factor: 1e-3 },
+  "mg/dl": { kind: "mass", factor: 1e-2 },
+  "g/l": { kind: "mass", factor: 1 },
+  "u/l": { kind: "activity", factor: 1 },
+  "iu/l": { kind: "activity", factor: 1 },
+  "ku/l": { kind: "activity", factor: 1e3 },
+  "kiu/l": { kind: "activity", factor: 1e3 },
+  "u/ml": { kind: "activity", factor: 1e3 },
+  "iu/ml": { kind: "activity", factor: 1e3 },
+};
+
+// D-dimer is reported in fibrinogen-equivalent (FEU) or D-dimer units (DDU), which don't convert
+function splitUnit(unit: string) {
+  const basis = /\b(FEU|DDU)\b/i.exec(unit)?.[1].toUpperCase() ?? null;
+  const base = unit.replace(/\b(FEU|DDU)\b/i, "").replace(/[µμ]/g, "u").replace(/mcg/gi, "ug").replace(/\s+/g, "").toLowerCase();
+  return { base, basis };
+}
+
+function conversionFactor(from: string, to: string): number | null {
+  const a = splitUnit(from);
+  const b = splitUnit(to);
+  if (a.basis && b.basis && a.basis !== b.basis) return null;
+  if (a.base === b.base) return 1;
+  const sa = UNIT_SCALE[a.base];
+  const sb = UNIT_SCALE[b.base];
+  return sa && sb && sa.kind === sb.kind ? sa.factor / sb.factor : null;
+}
+
+// Larger conversions (e.g. mg/dL for a test reported in ng/mL, ×10,000) are almost always a unit slip
+const MAX_CONVERSION_DECADES = 3;
+
+// A leading test name matches however its words are joined: "CA-125", "CA 125" and "ca125" alike
+function namePattern(name: string) {
+  const words = name.toLowerCase().match(/[a-z0-9]+/g);
+  return words ? new RegExp(`^${words.join("[^a-z0-9]*")}(?![a-z0-9])`, "i") : null;
+}
+
+// The value is the last standalone number and anything after it the unit; a leading test name
+// is dropped first so its digits ("CA-125 80 U/mL") and hyphens are never read as the value.
+// Thousands separators ("1,200") are allowed.
+export function parseMeasurement(text: string, unit: string, testName?: string): ParsedValue {
+  let s = text.trim().replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const name = testName ? namePattern(testName) : null;
+  if (name) s = s.replace(name, "").trim();
+  const m = /(?:^|[\s=:])(-?)(\d+(?:\.\d+)?|\.\d+)\s*([^\d\s][^\d]*)?$/.exec(s);
+  if (!m) return { error: `Enter a number, optionally with a unit (e.g. 42 ${unit})` };
+  if (m[1]) return { error: "Measured values can't be negative" };
+  const value = Number(m[2]);
+  const given = m[3]?.trim();
+  if (!given) return { value, entered: null };
+  const factor = conversionFactor(given, unit);
+  if (factor === null) return { error: `${given} can't be converted to ${unit}` };
+  if (splitUnit(given).base === splitUnit(unit).base) return { value, entered: null };
+  if (Math.abs(Math.log10(factor)) > MAX_CONVERSION_DECADES + 1e-9) {
+    return { error: `${value} ${given} would be ${Number((value * factor).toPrecision(6))} ${unit}; check the unit (results are reported in ${unit})` };
+  }
+  return { value: Number((value * factor).toPrecision(12)), entered: { value, unit: given } };
+}
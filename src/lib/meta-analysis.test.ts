@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DATA } from "../data";
+import { Z95 } from "./accuracy";
+import { lrNegative, lrPositive } from "./diagnostic-math";
+import { poolAccuracy, pooledTest, poolLogit } from "./meta-analysis";
+
+const close = (actual: number, expected: number, eps = 1e-9) => assert.ok(Math.abs(actual - expected) < eps, `expected ${expected}, got ${actual}`);
+const expit = (x: number) => 1 / (1 + Math.exp(-x));
+
+describe("poolLogit", () => {
+  it("matches the DerSimonian–Laird estimate worked by hand", () => {
+    // 80/100 and 20/100: logits ±ln 4, each with variance 1/80 + 1/20 = 1/16, so the fixed-effect mean is 0,
+    // Q = 16 · 2 (ln 4)², C = 32 − 2 · 16² / 32 = 16, τ² = (Q − 1) / 16 and SE = √((1/16 + τ²) / 2)
+    const q = 32 * Math.log(4) ** 2;
+    const tau2 = (q - 1) / 16;
+    const se = Math.sqrt((1 / 16 + tau2) / 2);
+    const p = poolLogit([{ events: 80, total: 100 }, { events: 20, total: 100 }]);
+    close(p.estimate, 0.5);
+    close(p.q, q);
+    close(p.tau2, tau2);
+    close(p.i2, (q - 1) / q);
+    close(p.ci.lower, expit(-Z95 * se));
+    close(p.ci.upper, expit(Z95 * se));
+    assert.deepEqual(p.weights, [0.5, 0.5]);
+    close(p.ci.lower, 0.062, 1e-3);
+  });
+
+  it("weights unequal studies by their random-effects variance", () => {
+    // 80/100 and 60/100, checked against an independent implementation of the same formulas
+    const p = poolLogit([{ events: 80, total: 100 }, { events: 60, total: 100 }]);
+    close(p.estimate, 0.70791, 1e-5);
+    close(p.ci.lower, 0.48108, 1e-5);
+    close(p.ci.upper, 0.86368, 1e-5);
+    close(p.tau2, 0.42893, 1e-5);
+    close(p.i2, 0.89172, 1e-5);
+    close(p.weights[0], 0.48917, 1e-5);
+  });
+
+  it("finds no heterogeneity in homogeneous studies", () => {
+    const same = poolLogit([{ events: 45, total: 50 }, { events: 90, total: 100 }, { events: 18, total: 20 }]);
+    close(same.estimate, 0.9);
+    assert.equal(same.tau2, 0);
+    assert.equal(same.i2, 0);
+    close(same.q, 0);
+    assert.equal(same.df, 2);
+    // Q below its degrees of freedom is truncated to τ² = 0 and I² = 0 as well
+    const near = poolLogit([{ events: 44, total: 50 }, { events: 46, total: 50 }]);
+    assert.ok(near.q < near.df);
+    assert.equal(near.tau2, 0);
+    assert.equal(near.i2, 0);
+  });
+
+  it("adds 0.5 to both cells of a study with no events or no non-events", () => {
+    const none = poolLogit([{ events: 0, total: 20 }]);
+    close(none.estimate, 0.5 / 21);
+    const se = Math.sqrt(1 / 0.5 + 1 / 20.5);
+    close(none.ci.lower, expit(Math.log(0.5 / 20.5) - Z95 * se));
+    const all = poolLogit([{ events: 20, total: 20 }]);
+    close(all.estimate, 20.5 / 21);
+    // Only the study with the empty cell is corrected
+    close(poolLogit([{ events: 0, total: 20 }, { events: 3, total: 20 }]).estimate, 0.09067, 1e-5);
+  });
+
+  it("rejects impossible counts", () => {
+    assert.throws(() => poolLogit([]), RangeError);
+    assert.throws(() => poolLogit([{ events: 5, total: 4 }]), RangeError);
+    assert.throws(() => poolLogit([{ events: 0, total: 0 }]), RangeError);
+  });
+});
+
+describe("poolAccuracy / pooledTest", () => {
+  const counts = [
+    { tp: 80, fn: 20, tn: 90, fp: 10 },
+    { tp: 60, fn: 40, tn: 80, fp: 20 },
+  ];
+
+  it("pools sensitivity and specificity separately and derives LR± from them", () => {
+    const pooled = poolAccuracy(counts);
+    close(pooled.sensitivity.estimate, poolLogit([{ events: 80, total: 100 }, { events: 60, total: 100 }]).estimate);
+    close(pooled.specificity.estimate, poolLogit([{ events: 90, total: 100 }, { events: 80, total: 100 }]).estimate);
+    close(pooled.lrPlus, lrPositive(pooled.sensitivity.estimate, pooled.specificity.estimate));
+    close(pooled.lrMinus, lrNegative(pooled.sensitivity.estimate, pooled.specificity.estimate));
+  });
+
+  it("credits the pooled studies, not the headline paper", () => {
+    const bnp = DATA.find(t => t.id === "bnp")!;
+    const t = pooledTest(bnp, bnp.studies!);
+    assert.equal(t.citation, null);
+    assert.equal(t.referenceUrl, null);
+    assert.equal(t.reference, `Random-effects pool of 2 studies: ${bnp.studies!.map(s => s.reference).join("; ")}`);
+    assert.deepEqual(t.ci?.sensitivity, poolAccuracy(bnp.studies!.map(s => s.counts)).sensitivity.ci);
+  });
+});
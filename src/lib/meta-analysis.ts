@@ -0,0 +1,105 @@
+import type { Interval, Study, TestData, TwoByTwo } from "../data/schema";
+import { Z95 } from "./accuracy";
+import { lrNegative, lrPositive } from "./diagnostic-math";
+
+/**
+ * Random-effects pooling of study-level accuracy
+ * - Sensitivity and specificity are pooled separately on the logit scale (DerSimonian–Laird)
+ * - Heterogeneity: Cochran's Q, τ² (between-study variance on the logit scale) and I²
+ * - A study with no events or no non-events gets 0.5 added to both, for that proportion only
+ *
+ * Univariate pooling ignores the correlation between Se and Sp across studies (a bivariate model
+ * would not), so pooled LR± are point estimates without a CI.
+ */
+
+export interface StudyProportion {
+  events: number;
+  total: number;
+}
+
+export interface PooledProportion {
+  estimate: number;
+  ci: Interval;
+  tau2: number;
+  q: number;
+  df: number;
+  i2: number; // 0–1
+  weights: number[]; // random-effects weights per study, summing to 1
+}
+
+export interface PooledAccuracy {
+  studies: number;
+  sensitivity: PooledProportion;
+  specificity: PooledProportion;
+  lrPlus: number;
+  lrMinus: number;
+}
+
+const logit = (p: number) => Math.log(p / (1 - p));
+const expit = (x: number) => 1 / (1 + Math.exp(-x));
+const sum = (xs: readonly number[]) => xs.reduce((a, b) => a + b, 0);
+
+export function poolLogit(studies: readonly StudyProportion[], z = Z95): PooledProportion {
+  if (studies.length === 0) throw new RangeError("at least one study is required");
+  const y: number[] = [];
+  const v: number[] = [];
+  for (const { events, total } of studies) {
+    if (!(total > 0 && events >= 0 && events <= total)) throw new RangeError(`expected 0 ≤ events ≤ total with total > 0, got ${events}/${total}`);
+    const k = events === 0 || events === total ? 0.5 : 0;
+    y.push(logit((events + k) / (total + 2 * k)));
+    v.push(1 / (events + k) + 1 / (total - events + k));
+  }
+
+  // Fixed-effect fit gives Q; the method-of-moments τ² then widens every study's variance
+  const w = v.map(vi => 1 / vi);
+  const sw = sum(w);
+  const fixed = sum(w.map((wi, i) => wi * y[i])) / sw;
+  const q = sum(w.map((wi, i) => wi * (y[i] - fixed) ** 2));
+  const df = studies.length - 1;
+  const c = sw - sum(w.map(wi => wi * wi)) / sw;
+  const tau2 = df > 0 && c > 0 ? Math.max(0, (q - df) / c) : 0;
+
+  const wr = v.map(vi => 1 / (vi + tau2));
+  const swr = sum(wr);
+  const mu = sum(wr.map((wi, i) => wi * y[i])) / swr;
+  const se = Math.sqrt(1 / swr);
+  return {
+    estimate: expit(mu),
+    ci: { lower: expit(mu - z * se), upper: expit(mu + z * se) },
+    tau2,
+    q,
+    df,
+    i2: q > df ? (q - df) / q : 0,
+    weights: wr.map(wi => wi / swr),
+  };
+}
+
+export function poolAccuracy(counts: readonly TwoByTwo[]): PooledAccuracy {
+  const sensitivity = poolLogit(counts.map(c => ({ events: c.tp, total: c.tp + c.fn })));
+  const specificity = poolLogit(counts.map(c => ({ events: c.tn, total: c.tn + c.fp })));
+  return {
+    studies: counts.length,
+    sensitivity,
+    specificity,
+    lrPlus: lrPositive(sensitivity.estimate, specificity.estimate),
+    lrMinus: lrNegative(sensitivity.estimate, specificity.estimate),
+  };
+}
+
+// The test re-estimated from some of its studies, in the shape the calculators expect; the source
+// becomes the pooled studies, so exports and the print report don't credit the headline paper
+export function pooledTest(t: TestData, studies: readonly Study[]): TestData {
+  const pooled = poolAccuracy(studies.map(s => s.counts));
+  return {
+    ...t,
+    sensitivity: pooled.sensitivity.estimate,
+    specificity: pooled.specificity.estimate,
+    lrPlus: pooled.lrPlus,
+    lrMinus: pooled.lrMinus,
+    reference: `Random-effects pool of ${studies.length} ${studies.length === 1 ? "study" : "studies"}: ${[...new Set(studies.map(s => s.reference))].join("; ")}`,
+    referenceUrl: null,
+    citation: null,
+    counts: null,
+    ci: { sensitivity: pooled.sensitivity.ci, specificity: pooled.specificity.ci },
+  };
+}
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseUrlState, toSearchParams, type ExplorerUrlState } from "./url-state";
+
+const defaults = parseUrlState(new URLSearchParams());
+
+describe("parseUrlState / toSearchParams", () => {
+  it("keeps a fresh page's URL clean", () => {
+    assert.equal(toSearchParams(defaults).toString(), "");
+  });
+
+  it("round-trips every part of the explorer state", () => {
+    const states: ExplorerUrlState[] = [
+      {
+        ...defaults,
+        query: "heart failure",
+        condition: "Heart Failure",
+        testId: "bnp",
+        prevalence: 32.5,
+        testResult: "negative",
+        sort: { key: "lrPlus", direction: "desc" },
+        cutoff: 100,
+        excludedStudies: ["dao-2001"],
+        measured: "BNP 420 pg/mL",
+        compareIds: ["bnp", "local-my-test"],
+        citationStyle: "apa",
+      },
+      { ...defaults, testId: "ferritin", category: "15-34" },
+    ];
+    for (const state of states) {
+      const params = new URLSearchParams(toSearchParams(state).toString());
+      assert.deepEqual(parseUrlState(params), state);
+    }
+  });
+
+  it("drops values the selected test doesn't offer", () => {
+    const parsed = parseUrlState(new URLSearchParams("test=ctpa&cutoff=100&subgroup=renal&exclude=dao-2001&category=high&value=42&compare=nope,ctpa&cite=mla"));
+    assert.deepEqual(
+      [parsed.cutoff, parsed.subgroup, parsed.excludedStudies, parsed.category, parsed.measured, parsed.compareIds, parsed.citationStyle],
+      [null, null, [], null, "", ["ctpa"], "vancouver"],
+    );
+    assert.deepEqual(parseUrlState(new URLSearchParams("test=bnp&exclude=dao-2001,maisel-2002")).excludedStudies, []);
+    assert.equal(parseUrlState(new URLSearchParams("cutoff=100")).cutoff, null);
+  });
+});
@@ -0,0 +1,98 @@
+import { CONDITIONS, getTestById, LOCAL_ID_PREFIX, type TestData } from "../data";
+import { findCategory } from "./accuracy";
+import { includedStudies } from "./active-test";
+import type { CitationStyle } from "./citations";
+import { measurementUnit } from "./measurement";
+
+/**
+ * Shareable explorer state in the query string
+ * - ?q=…&condition=…&test=<id>&prev=<0.1–90, one decimal>&result=positive|negative&sort=<column>&dir=asc|desc
+ * - For the selected test: &cutoff=<value>&subgroup=<id>&exclude=<study id,…>&category=<id>&value=<measured value as typed>
+ * - &compare=<test id,…>&cite=apa
+ *
+ * Defaults are omitted so a fresh page keeps a clean URL; anything unknown or out of range falls back to its default.
+ * Test-specific values are checked against the selected test; compared local tests are kept by id, since they
+ * are only known once the browser's imports have loaded.
+ */
+
+export type TestResult = "positive" | "negative";
+
+export interface SortConfig {
+  key: keyof TestData;
+  direction: "asc" | "desc";
+}
+
+export const SORTABLE_KEYS = ["test", "condition", "sensitivity", "specificity", "lrPlus", "lrMinus", "reference"] as const satisfies readonly (keyof TestData)[];
+
+export const PREVALENCE_MIN = 0.1;
+export const PREVALENCE_MAX = 90;
+export const DEFAULT_PREVALENCE = 10;
+
+export interface ExplorerUrlState {
+  query: string;
+  condition: string;
+  testId: string | null;
+  prevalence: number; // %
+  testResult: TestResult;
+  sort: SortConfig | null;
+  cutoff: number | null; // a Thresholds cutoff of the selected test
+  subgroup: string | null;
+  excludedStudies: string[];
+  category: string | null; // ResultCategory id
+  measured: string; // as typed, unit included
+  compareIds: string[];
+  citationStyle: CitationStyle;
+}
+
+const list = (v: string | null) => Array.from(new Set(v?.split(",").map(s => s.trim()).filter(Boolean) ?? []));
+
+export function parseUrlState(params: { get(name: string): string | null }): ExplorerUrlState {
+  const condition = params.get("condition");
+  const testId = params.get("test");
+  const test = testId ? getTestById(testId) ?? null : null;
+  const prev = Math.round(Number(params.get("prev")) * 10) / 10;
+  const sortKey = params.get("sort");
+  const sortable = (SORTABLE_KEYS as readonly string[]).includes(sortKey ?? "");
+  const cutoff = params.get("cutoff") !== null ? Number(params.get("cutoff")) : null;
+  const subgroup = params.get("subgroup");
+  const excluded = list(params.get("exclude"));
+  const category = params.get("category");
+  return {
+    query: params.get("q") ?? "",
+    condition: condition && CONDITIONS.includes(condition) ? condition : "All",
+    testId: test ? test.id : null,
+    prevalence: params.get("prev") !== null && Number.isFinite(prev) ? Math.min(PREVALENCE_MAX, Math.max(PREVALENCE_MIN, prev)) : DEFAULT_PREVALENCE,
+    testResult: params.get("result") === "negative" ? "negative" : "positive",
+    sort: sortable ? { key: sortKey as keyof TestData, direction: params.get("dir") === "desc" ? "desc" : "asc" } : null,
+    cutoff: cutoff !== null && test?.thresholds?.points.some(p => p.cutoff === cutoff) ? cutoff : null,
+    subgroup: subgroup && test?.subgroups?.some(g => g.id === subgroup) ? subgroup : null,
+    excludedStudies: test && excluded.every(id => test.studies?.some(s => s.id === id)) && includedStudies(test, excluded) ? excluded : [],
+    category: category && test?.results ? findCategory(test.results, category)?.id ?? null : null,
+    measured: test && measurementUnit(test) ? (params.get("value") ?? "").trim() : "",
+    compareIds: list(params.get("compare")).filter(id => getTestById(id) || id.startsWith(LOCAL_ID_PREFIX)),
+    citationStyle: params.get("cite") === "apa" ? "apa" : "vancouver",
+  };
+}
+
+export function toSearchParams(state: ExplorerUrlState) {
+  const params = new URLSearchParams();
+  if (state.query) params.set("q", state.query);
+  if (state.condition !== "All") params.set("condition", state.condition);
+  if (state.testId) params.set("test", state.testId);
+  if (state.prevalence !== DEFAULT_PREVALENCE) params.set("prev", String(state.prevalence));
+  if (state.testResult !== "positive") params.set("result", state.testResult);
+  if (state.sort) {
+    params.set("sort", state.sort.key);
+    params.set("dir", state.sort.direction);
+  }
+  if (state.testId) {
+    if (state.cutoff !== null) params.set("cutoff", String(state.cutoff));
+    if (state.subgroup) params.set("subgroup", state.subgroup);
+    if (state.excludedStudies.length > 0) params.set("exclude", state.excludedStudies.join(","));
+    if (state.category) params.set("category", state.category);
+    if (state.measured) params.set("value", state.measured);
+  }
+  if (state.compareIds.length > 0) params.set("compare", state.compareIds.join(","));
+  if (state.citationStyle !== "vancouver") params.set("cite", state.citationStyle);
+  return params;
+}